@@ -0,0 +1,94 @@
+import { AcceptanceEdge, coversLocation, resolveAcceptance } from '../lib/places/acceptance';
+
+function edge(overrides: Partial<AcceptanceEdge> = {}): AcceptanceEdge {
+  return {
+    id: 'edge',
+    subjectType: 'gift_card_brand',
+    subjectId: 'darden-gift-card',
+    networkId: 'olive-garden',
+    accepted: true,
+    source: 'ai',
+    confidence: 0.6,
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('resolveAcceptance', () => {
+  it('should let admin edges win over user reports and AI', () => {
+    const edges = [
+      edge({ id: 'ai', source: 'ai', confidence: 0.9 }),
+      edge({ id: 'admin', source: 'admin', accepted: false, confidence: 1 }),
+      edge({ id: 'report', source: 'user_report', confidence: 0.8 })
+    ];
+
+    expect(resolveAcceptance(edges)).toEqual([]);
+    expect(resolveAcceptance(edges.filter(e => e.id !== 'admin')).map(e => e.id)).toEqual(['report']);
+  });
+
+  it('should keep one winner per subject and network', () => {
+    const edges = [
+      edge({ id: 'a' }),
+      edge({ id: 'b', networkId: 'red-lobster' }),
+      edge({ id: 'c', subjectId: 'other-card' })
+    ];
+
+    expect(resolveAcceptance(edges).map(e => e.id).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should ignore edges outside their effective dates', () => {
+    const edges = [
+      edge({ id: 'expired', source: 'admin', confidence: 1, effectiveTo: '2025-12-31' }),
+      edge({ id: 'current', effectiveFrom: '2026-01-01' })
+    ];
+
+    const at = new Date('2026-03-01T12:00:00Z');
+    expect(resolveAcceptance(edges, { at }).map(e => e.id)).toEqual(['current']);
+    expect(resolveAcceptance(edges, { at: new Date('2025-06-01T12:00:00Z') }).map(e => e.id)).toEqual(['expired']);
+  });
+
+  it('should apply scoped "not accepted" edges only to their locations', () => {
+    const closed = { lat: 38.25, lon: -85.75, id: 'olive-garden:38.25:-85.75' };
+    const open = { lat: 36.16, lon: -86.78, id: 'olive-garden:36.16:-86.78' };
+    const edges = [
+      edge({ id: 'ai', confidence: 0.9 }),
+      edge({ id: 'admin', source: 'admin', accepted: false, confidence: 1, scope: { locationIds: [closed.id] } })
+    ];
+
+    const [resolved] = resolveAcceptance(edges);
+    expect(resolved.id).toBe('ai');
+    expect(coversLocation(resolved.scope, closed)).toBe(false);
+    expect(coversLocation(resolved.scope, open)).toBe(true);
+
+    const outranked = resolveAcceptance([
+      edge({ id: 'admin', source: 'admin', confidence: 1 }),
+      edge({ id: 'report', source: 'user_report', accepted: false, scope: { locationIds: [closed.id] } })
+    ]);
+    expect(outranked.map(e => e.id)).toEqual(['admin']);
+    expect(outranked[0].scope).toBeUndefined();
+  });
+
+  it('should drop edges below the minimum confidence', () => {
+    expect(resolveAcceptance([edge({ confidence: 0.3 })], { minConfidence: 0.5 })).toEqual([]);
+    expect(resolveAcceptance([edge({ confidence: 0.3 })])).toHaveLength(1);
+  });
+});
+
+describe('coversLocation', () => {
+  const location = { id: 'olive-garden:38.25:-85.75', lat: 38.25, lon: -85.75 };
+
+  it('should cover every location without a scope', () => {
+    expect(coversLocation(undefined, location)).toBe(true);
+    expect(coversLocation(undefined, { lat: 0, lon: 0 })).toBe(true);
+  });
+
+  it('should limit partial acceptance to listed locations and regions', () => {
+    expect(coversLocation({ locationIds: [location.id] }, location)).toBe(true);
+    expect(coversLocation({ locationIds: ['elsewhere'] }, location)).toBe(false);
+    expect(coversLocation({ locationIds: [location.id] }, { lat: location.lat, lon: location.lon })).toBe(false);
+
+    const kentucky = { minLon: -89.6, minLat: 36.5, maxLon: -81.9, maxLat: 39.2 };
+    expect(coversLocation({ region: kentucky }, location)).toBe(true);
+    expect(coversLocation({ region: kentucky }, { lat: 37.77, lon: -122.42 })).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  BarcodeRule,
+  identifyBarcode,
+  isGtinValid,
+  isLuhnValid,
+  normalizeBarcode,
+  validateBarcodeRule
+} from '../lib/giftCards/barcodeRules';
+
+function rule(overrides: Partial<BarcodeRule>): BarcodeRule {
+  return {
+    id: 'rule',
+    brandId: 'brand',
+    prefix: '6',
+    lengths: [],
+    checksum: 'none',
+    priority: 0,
+    enabled: true,
+    notes: null,
+    updatedBy: null,
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('barcode checksums', () => {
+  it('should validate Luhn card numbers', () => {
+    expect(isLuhnValid('79927398713')).toBe(true);
+    expect(isLuhnValid('79927398710')).toBe(false);
+    expect(isLuhnValid('7992 7398 713')).toBe(false);
+  });
+
+  it('should validate GTIN check digits', () => {
+    expect(isGtinValid('4006381333931')).toBe(true); // EAN-13
+    expect(isGtinValid('036000291452')).toBe(true); // UPC-A
+    expect(isGtinValid('036000291453')).toBe(false);
+    expect(isGtinValid('12345')).toBe(false);
+  });
+});
+
+describe('identifyBarcode', () => {
+  const rules = [
+    rule({ id: 'broad', brandId: 'broad-brand', prefix: '7992' }),
+    rule({ id: 'luhn', brandId: 'luhn-brand', prefix: '799273', lengths: [11], checksum: 'luhn' }),
+    rule({ id: 'disabled', brandId: 'disabled-brand', prefix: '7992739871', enabled: false })
+  ];
+
+  it('should prefer the longest enabled prefix whose length and checksum fit', () => {
+    const result = identifyBarcode(rules, '7992-7398-713');
+
+    expect(result.barcode).toBe('79927398713');
+    expect(result.rule?.id).toBe('luhn');
+  });
+
+  it('should fall back to a broader rule when the specific checksum fails', () => {
+    expect(identifyBarcode(rules, '79927398710').rule?.id).toBe('broad');
+  });
+
+  it('should report checksum failures when no rule matches', () => {
+    const result = identifyBarcode([rules[1]], '79927398710');
+
+    expect(result.rule).toBeNull();
+    expect(result.checksumFailed.map(r => r.id)).toEqual(['luhn']);
+    expect(identifyBarcode([rules[1]], '1234').checksumFailed).toEqual([]);
+  });
+
+  it('should break prefix ties by priority', () => {
+    const tied = [rule({ id: 'low', prefix: '12' }), rule({ id: 'high', prefix: '12', priority: 5 })];
+
+    expect(identifyBarcode(tied, '12345').rule?.id).toBe('high');
+  });
+});
+
+describe('validateBarcodeRule', () => {
+  it('should reject malformed rules', () => {
+    expect(validateBarcodeRule({ brandId: 'b', prefix: normalizeBarcode('60-12'), lengths: [16], checksum: 'luhn' })).toEqual([]);
+    expect(validateBarcodeRule({ brandId: '', prefix: '6012', lengths: [3, 1.5], checksum: 'crc' as any })).toEqual([
+      'brandId is required',
+      'lengths must be positive integers',
+      'checksum must be one of none, luhn, gtin'
+    ]);
+    expect(validateBarcodeRule({ brandId: 'b', prefix: '6012', lengths: [3] })).toEqual(['lengths must not be shorter than the prefix']);
+  });
+});
@@ -0,0 +1,58 @@
+import { GiftCardBrand, ProposedBrand, diffBrand, isEmptyDiff } from '../lib/giftCards/brandDiff';
+
+const proposed: ProposedBrand = {
+  name: 'Darden Restaurants Gift Card',
+  issuer: 'Darden Restaurants',
+  description: 'Works at Darden restaurants',
+  category: 'restaurant',
+  acceptedNetworks: [
+    { networkId: 'olive-garden', networkName: 'Olive Garden' },
+    { networkId: 'red-lobster', networkName: 'Red Lobster' }
+  ]
+};
+
+const current: GiftCardBrand = {
+  id: 'darden-gift-card',
+  name: 'Darden Restaurants Gift Card',
+  issuer: 'Darden Restaurants',
+  description: 'Works at Darden restaurants',
+  category: 'restaurant',
+  acceptedNetworkIds: ['olive-garden', 'red-lobster'],
+  autoDiscovered: false,
+  verified: true,
+  verifiedBy: 'admin@100apps.studio',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+};
+
+describe('diffBrand', () => {
+  it('should list every field for a new brand', () => {
+    const diff = diffBrand(null, proposed);
+
+    expect(diff.isNew).toBe(true);
+    expect(diff.changes.map(c => c.field)).toEqual(['name', 'issuer', 'description', 'category']);
+    expect(diff.addedNetworkIds).toEqual(['olive-garden', 'red-lobster']);
+    expect(isEmptyDiff(diff)).toBe(false);
+  });
+
+  it('should be empty when the discovery matches the brand', () => {
+    const diff = diffBrand(current, { ...proposed, description: '  Works at Darden   restaurants ' });
+
+    expect(diff.changes).toEqual([]);
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+
+  it('should report changed fields and network additions and removals', () => {
+    const diff = diffBrand(current, {
+      ...proposed,
+      issuer: 'Darden Concepts',
+      acceptedNetworks: [
+        { networkId: 'olive-garden', networkName: 'Olive Garden' },
+        { networkId: 'longhorn-steakhouse', networkName: 'LongHorn Steakhouse' }
+      ]
+    });
+
+    expect(diff.changes).toEqual([{ field: 'issuer', before: 'Darden Restaurants', after: 'Darden Concepts' }]);
+    expect(diff.addedNetworkIds).toEqual(['longhorn-steakhouse']);
+    expect(diff.removedNetworkIds).toEqual(['red-lobster']);
+  });
+});
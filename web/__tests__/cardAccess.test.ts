@@ -0,0 +1,74 @@
+import { hasCardPermission, resolveCardRole } from '../lib/cards/permissions';
+import { createInviteToken, hashInviteToken, inviteProblem, isPendingInvitee } from '../lib/cards/shares';
+
+describe('card access', () => {
+  it('should give the owner every permission', () => {
+    const role = resolveCardRole({ user_id: 'user_1' }, 'user_1');
+
+    expect(role).toBe('owner');
+    expect(hasCardPermission(role, 'read')).toBe(true);
+    expect(hasCardPermission(role, 'write')).toBe(true);
+    expect(hasCardPermission(role, 'manage')).toBe(true);
+  });
+
+  it('should give anyone else nothing', () => {
+    const role = resolveCardRole({ user_id: 'user_1' }, 'user_2');
+
+    expect(role).toBeNull();
+    expect(hasCardPermission(role, 'read')).toBe(false);
+  });
+
+  it('should give shared users the permissions of their role', () => {
+    const viewer = resolveCardRole({ user_id: 'user_1', shareRole: 'viewer' }, 'user_2');
+    const editor = resolveCardRole({ user_id: 'user_1', shareRole: 'balance_editor' }, 'user_2');
+    const coOwner = resolveCardRole({ user_id: 'user_1', shareRole: 'co_owner' }, 'user_2');
+
+    expect(hasCardPermission(viewer, 'read')).toBe(true);
+    expect(hasCardPermission(viewer, 'update_balance')).toBe(false);
+    expect(hasCardPermission(editor, 'update_balance')).toBe(true);
+    expect(hasCardPermission(editor, 'write')).toBe(false);
+    expect(hasCardPermission(coOwner, 'manage')).toBe(true);
+  });
+});
+
+describe('card share invites', () => {
+  const invite = {
+    status: 'pending' as const,
+    inviteeEmail: 'Sam@Example.com',
+    expiresAt: '2026-02-01T00:00:00.000Z',
+    cardOwnerId: 'user_1'
+  };
+  const now = new Date('2026-01-15T00:00:00.000Z');
+
+  it('should store only a hash of the token', () => {
+    const { token, tokenHash } = createInviteToken();
+
+    expect(tokenHash).not.toContain(token);
+    expect(hashInviteToken(token)).toBe(tokenHash);
+  });
+
+  it('should let the invited email accept, ignoring case', () => {
+    expect(inviteProblem(invite, { userId: 'user_2', emails: ['sam@example.com'] }, now)).toBeNull();
+  });
+
+  it('should refuse other emails, expired, revoked and accepted invites', () => {
+    expect(inviteProblem(invite, { userId: 'user_2', emails: ['alex@example.com'] }, now)?.status).toBe(403);
+    expect(inviteProblem(invite, { userId: 'user_2', emails: ['sam@example.com'] }, new Date('2026-02-02'))?.status).toBe(410);
+    expect(inviteProblem({ ...invite, status: 'revoked' }, { userId: 'user_2', emails: ['sam@example.com'] }, now)?.status).toBe(410);
+    expect(inviteProblem({ ...invite, status: 'accepted' }, { userId: 'user_2', emails: ['sam@example.com'] }, now)?.status).toBe(409);
+  });
+
+  it('should let anyone but the owner accept a link invite', () => {
+    const link = { ...invite, inviteeEmail: null };
+
+    expect(inviteProblem(link, { userId: 'user_3', emails: [] }, now)).toBeNull();
+    expect(inviteProblem(link, { userId: 'user_1', emails: [] }, now)?.status).toBe(409);
+  });
+
+  it('should let only the invited email decline a pending invite', () => {
+    expect(isPendingInvitee(invite, ['sam@example.com'])).toBe(true);
+    expect(isPendingInvitee(invite, ['alex@example.com'])).toBe(false);
+    expect(isPendingInvitee({ ...invite, status: 'accepted' }, ['sam@example.com'])).toBe(false);
+    expect(isPendingInvitee({ ...invite, inviteeEmail: null }, ['sam@example.com'])).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import { decodeCardCursor, encodeCardCursor, parseCardInput, parseCardUpdate, validityWindowError } from '../lib/cards/cards';
+
+describe('parseCardInput', () => {
+  it('should fill defaults for a minimal card', () => {
+    const { input, errors } = parseCardInput({ name: ' Costco ', barcode_type: 'code128', payload_encrypted: 'nonce:ct:tag' });
+
+    expect(errors).toEqual([]);
+    expect(input).toEqual({
+      name: 'Costco',
+      card_type: 'loyalty',
+      barcode_type: 'code128',
+      payload_encrypted: 'nonce:ct:tag',
+      gift_card_brand_id: null,
+      tags: [],
+      network_ids: [],
+      valid_from: null,
+      valid_to: null,
+      one_time: false,
+      metadata: {}
+    });
+  });
+
+  it('should report every invalid field', () => {
+    const { input, errors } = parseCardInput({ barcode_type: 'morse', card_type: 'coupon', tags: 'a', valid_from: 'soon' });
+
+    expect(input).toBeUndefined();
+    expect(errors).toEqual([
+      'barcode_type must be one of qr, code128, pdf417, aztec, ean13, upc_a, code39, itf',
+      'payload_encrypted is required',
+      'card_type must be one of loyalty, membership, gift_card, voucher, other',
+      'tags must be a list of strings',
+      'valid_from must be a date-time or null',
+      'name is required'
+    ]);
+  });
+});
+
+describe('parseCardUpdate', () => {
+  it('should keep only the fields that are present', () => {
+    const { update, errors } = parseCardUpdate({ card_type: 'gift_card', valid_to: null, payload_encrypted: 'ignored' });
+
+    expect(errors).toEqual([]);
+    expect(update).toEqual({ card_type: 'gift_card', valid_to: null });
+  });
+
+  it('should reject a validity window that ends before it starts', () => {
+    const { errors } = parseCardUpdate({ valid_from: '2026-02-01T00:00:00Z', valid_to: '2026-01-01T00:00:00Z' });
+
+    expect(errors).toEqual(['valid_to must not be before valid_from']);
+  });
+});
+
+describe('validityWindowError', () => {
+  it('should check a PATCH merged with the stored window', () => {
+    const stored = { valid_from: '2026-02-01T00:00:00.000Z', valid_to: null };
+    const { update } = parseCardUpdate({ valid_to: '2026-01-01T00:00:00Z' });
+
+    expect(validityWindowError(stored.valid_from, update.valid_to ?? stored.valid_to)).toBe('valid_to must not be before valid_from');
+    expect(validityWindowError(null, update.valid_to as string)).toBeNull();
+    expect(validityWindowError(stored.valid_from, null)).toBeNull();
+  });
+});
+
+describe('card cursors', () => {
+  it('should round-trip and reject tampered cursors', () => {
+    const cursor = { createdAt: '2026-01-15T10:30:00.123456Z', id: 'card-1' };
+    const encoded = encodeCardCursor(cursor);
+
+    expect(encoded).not.toMatch(/[+/=]/);
+    expect(decodeCardCursor(encoded)).toEqual(cursor);
+    expect(decodeCardCursor('not-a-cursor')).toBeNull();
+    expect(decodeCardCursor(Buffer.from('2026-01-15|card-1').toString('base64'))).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { balanceDiscrepancy, computeBalance, isUnresolvedReport, ledgerEntryProblem, parseAmount, parseLedgerEntryInput } from '../lib/cards/ledger';
+
+describe('gift card ledger', () => {
+  it('should derive the balance from typed entries without float drift', () => {
+    const balance = computeBalance([
+      { entry_type: 'initial_load', amount: 50 },
+      { entry_type: 'spend', amount: 12.1 },
+      { entry_type: 'spend', amount: 7.2 },
+      { entry_type: 'refund', amount: 0.1 },
+      { entry_type: 'reload', amount: 25 },
+      { entry_type: 'adjustment', amount: -0.3 }
+    ]);
+
+    expect(balance).toBe(55.5);
+  });
+
+  it('should flag a reported balance that differs from the ledger', () => {
+    expect(balanceDiscrepancy(30.7, 30.7)).toBeNull();
+    expect(balanceDiscrepancy(28.2, 30.7)).toBe(-2.5);
+  });
+
+  it('should clear a flagged report once the ledger accounts for the difference', () => {
+    const report = { balance: 28.2, discrepancy: -2.5 };
+
+    expect(isUnresolvedReport(report, 30.7)).toBe(true);
+    expect(isUnresolvedReport(report, computeBalance([
+      { entry_type: 'initial_load', amount: 30.7 },
+      { entry_type: 'spend', amount: 2.5 }
+    ]))).toBe(false);
+    expect(isUnresolvedReport({ balance: 30.7, discrepancy: null }, 25)).toBe(false);
+  });
+
+  it('should require an initial load first and keep the balance from going negative', () => {
+    expect(ledgerEntryProblem({ entry_type: 'spend', amount: 5 }, null)).toMatch(/initial_load/);
+    expect(ledgerEntryProblem({ entry_type: 'initial_load', amount: 25 }, null)).toBeNull();
+    expect(ledgerEntryProblem({ entry_type: 'initial_load', amount: 25 }, 25)).toMatch(/already has/);
+    expect(ledgerEntryProblem({ entry_type: 'spend', amount: 25.01 }, 25)).toMatch(/negative/);
+    expect(ledgerEntryProblem({ entry_type: 'spend', amount: 25 }, 25)).toBeNull();
+  });
+
+  it('should parse a spend with merchant and reported balance', () => {
+    const { input, errors } = parseLedgerEntryInput({
+      entry_type: 'spend',
+      amount: '18.45',
+      merchant: ' Blue Bottle ',
+      occurred_at: '2026-03-01T09:15:00Z',
+      reported_balance: 31.55
+    });
+
+    expect(errors).toEqual([]);
+    expect(input).toEqual({
+      entry_type: 'spend',
+      amount: 18.45,
+      currency: null,
+      merchant: 'Blue Bottle',
+      location_id: null,
+      notes: null,
+      occurred_at: '2026-03-01T09:15:00.000Z',
+      reported_balance: 31.55
+    });
+  });
+
+  it('should reject bad amounts and types', () => {
+    expect(parseAmount(1.005)).toBeNull();
+    expect(parseAmount('abc')).toBeNull();
+    expect(parseLedgerEntryInput({ entry_type: 'spend', amount: -5 }).errors).toEqual(['amount must be positive']);
+    expect(parseLedgerEntryInput({ entry_type: 'adjustment', amount: 0 }).errors).toEqual(['amount must not be 0 for an adjustment']);
+    expect(parseLedgerEntryInput({ entry_type: 'purchase', amount: 5, currency: 'usd' }).errors).toEqual([
+      'entry_type must be one of initial_load, spend, reload, refund, adjustment',
+      'currency must be a 3-letter ISO code, e.g. USD'
+    ]);
+  });
+});
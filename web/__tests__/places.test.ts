@@ -1,6 +1,18 @@
-import { searchNominatim } from '../lib/places/nominatimConnector';
-import { searchPlaces } from '../lib/places/search';
-import { importCSV, getNetworkById } from '../lib/places/csvImporter';
+import { queryNominatim, searchNominatim } from '../lib/places/nominatimConnector';
+import { isRateLimitedSearch, searchPlaces } from '../lib/places/search';
+import { curatedLocationId, parseLocationsCSV } from '../lib/places/csvImporter';
+import { parseLocationsGeoJSON } from '../lib/places/geojsonImporter';
+import { diffLocations, reconcileLocationIds } from '../lib/places/importDiff';
+import { importCSV, getNetworkById, saveNetwork } from '../lib/places/networkRepository';
+import { haversineDistance } from '../lib/places/geoIndex';
+import curatedNetworks from '../data/curated-networks.json';
+import { getPlaceDetails } from '../lib/places/details';
+import { resolveGeofenceRadius } from '../lib/places/radius';
+import { ProviderTimeoutError, RateLimitedError } from '../lib/places/errors';
+import { placesCache } from '../lib/places/cache';
+import { getCacheMetrics } from '../lib/cacheMetrics';
+import { MemoryRateLimitStore, RateLimiter, nominatimLimiter } from '../lib/places/rateLimiter';
+import { registerPlaceProvider, unregisterPlaceProvider, findUnknownProviders } from '../lib/places/providers';
 
 // Mock axios for API calls
 jest.mock('axios');
@@ -8,9 +20,91 @@ import axios from 'axios';
 
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Postgres stand-in: every query the repositories send goes through mockQuery.
+// By default it answers from a copy of the curated JSON (and `storedNetwork`),
+// so reads work and tests can assert the SQL and parameters that were sent.
+const mockQuery = jest.fn();
+
+jest.mock('../lib/db', () => ({
+  pool: {
+    query: (...args: any[]) => mockQuery(...args),
+    connect: async () => ({ query: (...args: any[]) => mockQuery(...args), release: () => {} })
+  }
+}));
+
+interface StoredNetwork {
+  row: { id: string; name: string; canonical_names: string[]; category: string; default_radius_meters: number | null };
+  locations: any[];
+}
+
+let storedNetwork: StoredNetwork | null = null;
+
+function locationRow(network: { id: string; name: string; category?: string }, loc: any) {
+  return {
+    id: loc.id || curatedLocationId(network.id, loc.lat, loc.lon),
+    network_id: network.id,
+    network_name: network.name,
+    lat: String(loc.lat),
+    lon: String(loc.lon),
+    radius_meters: loc.radius_meters ?? null,
+    network_radius_meters: null,
+    network_category: network.category || 'other',
+    notes: loc.notes || null,
+    external_key: loc.external_key || null,
+    removed_at: loc.removed_at || null
+  };
+}
+
+const seedRows = curatedNetworks.flatMap(network => network.locations.map(loc => locationRow(network, loc)));
+
+function routeQuery(sql: string, params: any[] = []) {
+  const stored = storedNetwork ? storedNetwork.locations : [];
+  const rows = seedRows.concat(stored).filter(row => !row.removed_at);
+
+  if (sql.includes('FROM geofence_category_defaults')) {
+    return { rows: [{ category: 'warehouse_club', radius_meters: 250 }] };
+  }
+  if (sql.includes('SELECT id, name, canonical_names FROM networks')) {
+    return { rows: curatedNetworks.map(n => ({ id: n.id, name: n.name, canonical_names: n.aliases || [] })) };
+  }
+  if (sql.includes('FROM networks WHERE id = $1')) {
+    return { rows: storedNetwork && storedNetwork.row.id === params[0] ? [storedNetwork.row] : [] };
+  }
+  if (sql.includes('WHERE l.network_id = $1')) {
+    return { rows: storedNetwork ? storedNetwork.locations.filter(row => params[1] || !row.removed_at) : [] };
+  }
+  if (sql.includes('WHERE l.id = $1')) {
+    return { rows: rows.filter(row => row.id === params[0]) };
+  }
+  if (sql.includes('ORDER BY l.location <->')) {
+    const [lat, lon, limit] = params;
+    return {
+      rows: rows
+        .map(row => ({ ...row, distance: String(haversineDistance(lat, lon, Number(row.lat), Number(row.lon))) }))
+        .sort((a, b) => Number(a.distance) - Number(b.distance))
+        .slice(0, limit)
+    };
+  }
+  return { rows: [] };
+}
+
+// The statements sent that contain `fragment`, with their parameters
+function queriesMatching(fragment: string): Array<{ sql: string; params: any[] }> {
+  return mockQuery.mock.calls
+    .filter(([sql]) => typeof sql === 'string' && sql.includes(fragment))
+    .map(([sql, params]) => ({ sql, params: params || [] }));
+}
+
 describe('Places API', () => {
+  beforeAll(() => {
+    // Upstream calls are mocked; keep the shared Nominatim budget from throttling them
+    jest.spyOn(nominatimLimiter, 'consume').mockResolvedValue({ allowed: true, remaining: 1, retryAfterMs: 0 });
+  });
+
   beforeEach(() => {
     jest.clearAllMocks();
+    mockQuery.mockImplementation(async (sql: string, params?: any[]) => routeQuery(sql, params));
+    storedNetwork = null;
   });
 
   describe('searchNominatim', () => {
@@ -83,41 +177,618 @@ describe('Places API', () => {
     });
   });
 
+  describe('Place providers', () => {
+    afterEach(() => {
+      unregisterPlaceProvider('test-provider');
+    });
+
+    it('should fan out only to the requested providers', async () => {
+      const search = jest.fn().mockResolvedValue([
+        {
+          id: 'test-provider:1',
+          name: 'Fixture Store',
+          lat: 37.7749,
+          lon: -122.4194,
+          categories: [],
+          dataSource: 'test-provider'
+        }
+      ]);
+
+      registerPlaceProvider({
+        id: 'test-provider',
+        capabilities: ['textSearch'],
+        cacheTtlSeconds: 0,
+        priority: 5,
+        defaultEnabled: false,
+        search
+      });
+
+      const results = await searchPlaces('fixture', { source: 'test-provider' });
+
+      expect(search).toHaveBeenCalledWith('fixture', expect.objectContaining({ source: 'test-provider' }));
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+      expect(results.results.map(r => r.id)).toEqual(['test-provider:1']);
+    });
+
+    it('should return partial results with per-provider status', async () => {
+      registerPlaceProvider({
+        id: 'test-provider',
+        capabilities: ['textSearch'],
+        cacheTtlSeconds: 0,
+        priority: 5,
+        defaultEnabled: false,
+        timeoutMs: 20,
+        search: () => new Promise(() => {}) // Never settles
+      });
+      registerPlaceProvider({
+        id: 'test-throttled',
+        capabilities: ['textSearch'],
+        cacheTtlSeconds: 0,
+        priority: 6,
+        defaultEnabled: false,
+        search: () => Promise.reject(new RateLimitedError('test-throttled', 1500))
+      });
+      mockedAxios.get.mockResolvedValueOnce({
+        data: [{ place_id: 1, display_name: 'Partial Store', lat: '37.7749', lon: '-122.4194', type: 'shop' }]
+      });
+
+      const results = await searchPlaces('partial store', { source: 'nominatim,test-provider,test-throttled' });
+      unregisterPlaceProvider('test-throttled');
+
+      expect(results.results.map(r => r.id)).toEqual(['nominatim:1']);
+      expect(results.providers.nominatim).toMatchObject({ status: 'ok', resultCount: 1 });
+      expect(results.providers['test-provider'].status).toBe('timeout');
+      expect(results.providers['test-throttled'].status).toBe('rate_limited');
+      expect(results.providers['test-throttled'].retryAfterMs).toBe(1500);
+      expect(results.providers['test-provider'].latencyMs).toBeGreaterThanOrEqual(0);
+      expect(results.rateLimited).toEqual(['test-throttled']);
+    });
+
+    it('should only reject a search as rate limited when no provider produced a result', () => {
+      const throttled = { status: 'rate_limited' as const, latencyMs: 1, resultCount: 0, retryAfterMs: 1500 };
+      const ok = { status: 'ok' as const, latencyMs: 1, resultCount: 2 };
+      const empty = { status: 'ok' as const, latencyMs: 1, resultCount: 0 };
+      const place = { id: 'curated:costco:37.7:-122.4', name: 'Costco', lat: 37.7, lon: -122.4, categories: [], dataSource: 'curated' as const };
+      const response = (providers: Record<string, any>) => {
+        const resultCount = Object.values(providers).reduce((sum, status) => sum + status.resultCount, 0);
+        return {
+          results: Array(resultCount).fill(place), total: resultCount, query: 'costco', providers,
+          rateLimited: Object.keys(providers).filter(id => providers[id] === throttled)
+        };
+      };
+
+      expect(isRateLimitedSearch(response({ nominatim: throttled }))).toBe(true);
+      expect(isRateLimitedSearch(response({ nominatim: throttled, curated: empty }))).toBe(true);
+      // Partial results are returned with the throttled providers in rateLimited
+      expect(isRateLimitedSearch(response({ nominatim: throttled, curated: ok }))).toBe(false);
+      expect(isRateLimitedSearch(response({ nominatim: throttled, foursquare: ok }))).toBe(false);
+      expect(isRateLimitedSearch(response({ curated: empty }))).toBe(false);
+    });
+
+    it('should report upstream failures as errors', async () => {
+      mockedAxios.get.mockRejectedValueOnce(new Error('API Error'));
+
+      const results = await searchPlaces('broken upstream', { source: 'nominatim' });
+
+      expect(results.results).toHaveLength(0);
+      expect(results.providers.nominatim).toMatchObject({ status: 'error', error: 'API Error' });
+    });
+
+    it('should report unknown provider ids', () => {
+      expect(findUnknownProviders('nominatim,overpass')).toEqual(['overpass']);
+      expect(findUnknownProviders('both')).toEqual([]);
+    });
+  });
+
+  describe('RateLimiter', () => {
+    it('should allow a burst, then report when the next token arrives', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000000);
+      const limiter = new RateLimiter('test', { requestsPerMinute: 60, burstLimit: 2 }, new MemoryRateLimitStore());
+
+      try {
+        expect((await limiter.consume('global')).allowed).toBe(true);
+        expect((await limiter.consume('global')).allowed).toBe(true);
+
+        const throttled = await limiter.consume('global');
+        expect(throttled).toEqual({ allowed: false, remaining: 0, retryAfterMs: 1000 });
+
+        now.mockReturnValue(1000000 + 1000);
+        expect(await limiter.getRemainingRequests('global')).toBe(1);
+        expect((await limiter.consume('global')).allowed).toBe(true);
+        expect(await limiter.isAllowed('other-key')).toBe(true);
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it('should wait for a slot within the budget and reject beyond it', async () => {
+      const limiter = new RateLimiter('test-queue', { requestsPerMinute: 600, burstLimit: 1 }, new MemoryRateLimitStore());
+
+      expect((await limiter.acquire('global', 500)).allowed).toBe(true);
+
+      const startedAt = Date.now();
+      const [queued, rejected] = await Promise.all([
+        limiter.acquire('global', 500),
+        limiter.acquire('global', 50)
+      ]);
+
+      expect(queued.allowed).toBe(true);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(50);
+      expect(rejected.allowed).toBe(false);
+      expect(rejected.retryAfterMs).toBeGreaterThan(50);
+    });
+
+    it('should let a concurrent burst that fits the bucket through without waiting', async () => {
+      const limiter = new RateLimiter('test-burst', { requestsPerMinute: 6, burstLimit: 5 }, new MemoryRateLimitStore());
+
+      const results = await Promise.all([1, 2, 3, 4, 5].map(() => limiter.acquire('global', 1000)));
+
+      expect(results.every(result => result.allowed)).toBe(true);
+      expect((await limiter.acquire('global', 1000)).allowed).toBe(false);
+    });
+
+    it('should coalesce identical in-flight Nominatim queries', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: [{ place_id: 77, display_name: 'Coalesced Store, Oakland', lat: '37.8044', lon: '-122.2712', type: 'shop' }]
+      });
+
+      const [first, second] = await Promise.all([
+        queryNominatim('coalesced store', { lat: 37.8044, lon: -122.2712 }),
+        queryNominatim('coalesced store', { lat: 37.8044, lon: -122.2712 })
+      ]);
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+      expect(first).toHaveLength(1);
+      expect(second).toEqual(first);
+    });
+  });
+
+  describe('PlacesCache', () => {
+    let now: jest.SpyInstance;
+
+    beforeEach(() => {
+      now = jest.spyOn(Date, 'now').mockReturnValue(5000000);
+    });
+
+    afterEach(() => {
+      now.mockRestore();
+    });
+
+    it('should serve stale entries while refreshing in the background', async () => {
+      const cache = placesCache.namespace('test-swr', 1);
+      const fetcher = jest.fn().mockResolvedValueOnce(['first']).mockResolvedValueOnce(['second']);
+
+      expect(await cache.getOrFetch('key', fetcher, { ttlSeconds: 10 })).toEqual(['first']);
+      expect(await cache.getOrFetch('key', fetcher, { ttlSeconds: 10 })).toEqual(['first']);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(5000000 + 11000);
+      expect(await cache.getOrFetch('key', fetcher, { ttlSeconds: 10 })).toEqual(['first']);
+      expect(fetcher).toHaveBeenCalledTimes(2);
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(await cache.getOrFetch('key', fetcher, { ttlSeconds: 10 })).toEqual(['second']);
+
+      // A new namespace version starts empty
+      const bumped = jest.fn().mockResolvedValue(['bumped']);
+      expect(await placesCache.namespace('test-swr', 2).getOrFetch('key', bumped, { ttlSeconds: 10 })).toEqual(['bumped']);
+
+      expect((await getCacheMetrics())['test-swr']).toEqual({ hit: 2, miss: 2, stale: 1, negative: 0 });
+    });
+
+    it('should cache empty results and errors for the negative TTL only', async () => {
+      const cache = placesCache.namespace('test-negative', 1);
+      const empty = jest.fn().mockResolvedValue([]);
+
+      await cache.getOrFetch('empty', empty, { ttlSeconds: 3600, negativeTtlSeconds: 60 });
+      await cache.getOrFetch('empty', empty, { ttlSeconds: 3600, negativeTtlSeconds: 60 });
+      expect(empty).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(5000000 + 61000);
+      await cache.getOrFetch('empty', empty, { ttlSeconds: 3600, negativeTtlSeconds: 60 });
+      expect(empty).toHaveBeenCalledTimes(2);
+
+      const failing = jest.fn().mockRejectedValue(new Error('Upstream down'));
+      await expect(cache.getOrFetch('error', failing, { negativeTtlSeconds: 60 })).rejects.toThrow('Upstream down');
+      await expect(cache.getOrFetch('error', failing, { negativeTtlSeconds: 60 })).rejects.toThrow('Upstream down');
+      expect(failing).toHaveBeenCalledTimes(1);
+
+      const throttled = jest.fn().mockRejectedValue(new RateLimitedError('test', 1000));
+      await expect(cache.getOrFetch('throttled', throttled)).rejects.toThrow(RateLimitedError);
+      await expect(cache.getOrFetch('throttled', throttled)).rejects.toThrow(RateLimitedError);
+      expect(throttled).toHaveBeenCalledTimes(2);
+
+      expect((await getCacheMetrics())['test-negative']).toMatchObject({ negative: 2 });
+      expect(await placesCache.keys('test-negative:v1:')).toEqual(
+        expect.arrayContaining(['test-negative:v1:empty', 'test-negative:v1:error'])
+      );
+      expect(await placesCache.purge('test-negative:')).toBe(2);
+      expect(await placesCache.inspect('test-negative:v1:empty')).toBeNull();
+    });
+
+    it('should rethrow cached errors as the class they were thrown as', async () => {
+      const cache = placesCache.namespace('test-error-kind', 1);
+
+      const timedOut = jest.fn().mockRejectedValue(new ProviderTimeoutError('test', 3000));
+      await expect(cache.getOrFetch('timeout', timedOut, { negativeTtlSeconds: 60 })).rejects.toThrow(ProviderTimeoutError);
+      await expect(cache.getOrFetch('timeout', timedOut, { negativeTtlSeconds: 60 })).rejects.toMatchObject({
+        providerId: 'test',
+        timeoutMs: 3000
+      });
+      expect(timedOut).toHaveBeenCalledTimes(1);
+
+      // A provider's own 429 is remembered until its Retry-After passes
+      const upstreamThrottled = jest.fn().mockRejectedValue(new RateLimitedError('test', 30000, true));
+      await expect(cache.getOrFetch('throttled', upstreamThrottled, { negativeTtlSeconds: 60 })).rejects.toThrow(RateLimitedError);
+      now.mockReturnValue(5000000 + 10000);
+      await expect(cache.getOrFetch('throttled', upstreamThrottled, { negativeTtlSeconds: 60 })).rejects.toMatchObject({
+        name: 'RateLimitedError',
+        retryAfterMs: 20000
+      });
+      expect(upstreamThrottled).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(5000000 + 31000);
+      await expect(cache.getOrFetch('throttled', upstreamThrottled, { negativeTtlSeconds: 60 })).rejects.toThrow(RateLimitedError);
+      expect(upstreamThrottled).toHaveBeenCalledTimes(2);
+
+      expect(await placesCache.purge('test-error-kind:')).toBe(2);
+    });
+  });
+
+  describe('Relevance scoring', () => {
+    it('should find networks by compact or abbreviated names', async () => {
+      const wholeFoods = await searchPlaces('wholefoods', { lat: 37.782, lon: -122.4009, source: 'curated' });
+      const costco = await searchPlaces('Costco Whse', { lat: 37.7749, lon: -122.4194, source: 'curated' });
+
+      expect(wholeFoods.results.length).toBeGreaterThan(0);
+      expect(wholeFoods.results.every(r => r.name === 'Whole Foods Market')).toBe(true);
+      expect(costco.results.length).toBeGreaterThan(0);
+      expect(costco.results.every(r => r.name === 'Costco Wholesale')).toBe(true);
+    });
+
+    it('should rank closer matching places above distant or unrelated ones', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: [
+          { place_id: 1, display_name: 'Corner Deli', lat: '37.7750', lon: '-122.4195', type: 'shop', class: 'shop' },
+          { place_id: 2, display_name: 'Costco Wholesale', lat: '37.9', lon: '-122.3', type: 'wholesale', class: 'shop' },
+          { place_id: 3, display_name: 'Costco Wholesale', lat: '37.7751', lon: '-122.4196', type: 'wholesale', class: 'shop' }
+        ]
+      });
+
+      const results = await searchPlaces('costco', { lat: 37.775, lon: -122.4195, source: 'nominatim' });
+
+      expect(results.results.map(r => r.id)).toEqual(['nominatim:3', 'nominatim:2', 'nominatim:1']);
+      expect(results.results[0].relevanceScore).toBeGreaterThan(results.results[1].relevanceScore!);
+    });
+  });
+
+  describe('getPlaceDetails', () => {
+    it('should normalize a Nominatim details response', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: {
+          place_id: 67890,
+          localname: 'Costco Wholesale',
+          category: 'shop',
+          type: 'wholesale',
+          centroid: { type: 'Point', coordinates: [-122.4064, 37.6475] },
+          extratags: {
+            brand: 'Costco',
+            opening_hours: 'Mo-Fr 10:00-20:30',
+            phone: '+1 650-871-0120',
+            website: 'https://www.costco.com'
+          },
+          address: [
+            { localname: '451 South Airport Boulevard', isaddress: true },
+            { localname: 'South San Francisco', isaddress: true },
+            { localname: 'San Mateo County', isaddress: false }
+          ]
+        }
+      });
+
+      const details = await getPlaceDetails('nominatim:67890');
+
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://nominatim.openstreetmap.org/details',
+        expect.objectContaining({ params: expect.objectContaining({ place_id: '67890' }) })
+      );
+      expect(details).toMatchObject({
+        id: 'nominatim:67890',
+        name: 'Costco Wholesale',
+        address: '451 South Airport Boulevard, South San Francisco',
+        lat: 37.6475,
+        lon: -122.4064,
+        categories: ['wholesale', 'shop', 'Costco'],
+        phone: '+1 650-871-0120',
+        website: 'https://www.costco.com',
+        hours: { display: 'Mo-Fr 10:00-20:30' }
+      });
+    });
+
+    it('should only treat an unknown Nominatim place as not found', async () => {
+      mockedAxios.get.mockRejectedValueOnce({ response: { status: 404 } });
+      expect(await getPlaceDetails('nominatim:404')).toBeNull();
+
+      mockedAxios.get.mockRejectedValueOnce({ response: { status: 503 } });
+      await expect(getPlaceDetails('nominatim:503')).rejects.toEqual({ response: { status: 503 } });
+
+      mockedAxios.get.mockRejectedValueOnce({ response: { status: 429, headers: { 'retry-after': '30' } } });
+      await expect(getPlaceDetails('nominatim:429')).rejects.toMatchObject({
+        name: 'RateLimitedError',
+        retryAfterMs: 30000
+      });
+    });
+
+    it('should decode curated ids back to their location', async () => {
+      const network = { id: 'details-network', name: 'Details Network' };
+      storedNetwork = {
+        row: { ...network, canonical_names: [network.name], category: 'other', default_radius_meters: null },
+        locations: [locationRow(network, { lat: 37.1234, lon: -122.5678, radius_meters: 150 })]
+      };
+
+      const details = await getPlaceDetails('curated:details-network:37.1234:-122.5678');
+
+      expect(details).toMatchObject({
+        name: 'Details Network',
+        networkId: 'details-network',
+        radiusMeters: 150,
+        dataSource: 'curated'
+      });
+      expect(await getPlaceDetails('curated:details-network:0:0')).toBeNull();
+      expect(queriesMatching('WHERE l.id = $1').map(q => q.params)).toEqual([
+        ['details-network:37.1234:-122.5678'],
+        ['details-network:0:0']
+      ]);
+    });
+
+    it('should return null for unknown prefixes', async () => {
+      expect(await getPlaceDetails('google:abc')).toBeNull();
+    });
+  });
+
   describe('CSV Import', () => {
     const sampleCSV = `name,address,lat,lon,radius
 Test Store,123 Main St,37.7749,-122.4194,100
 Another Store,456 Oak Ave,37.7849,-122.4294,80`;
 
-    it('should import CSV data correctly', () => {
-      const result = importCSV(sampleCSV, 'test-network', 'Test Network');
+    it('should parse CSV data correctly', () => {
+      const result = parseLocationsCSV(sampleCSV, 'test-network', 'Test Network');
 
-      expect(result.success).toBe(true);
-      expect(result.imported).toBe(2);
+      expect(result.locations).toHaveLength(2);
       expect(result.errors).toHaveLength(0);
+      expect(result.locations[0]).toMatchObject({
+        id: 'test-network:37.7749:-122.4194',
+        network_id: 'test-network',
+        radius_meters: 100,
+        notes: 'Test Store'
+      });
     });
 
     it('should validate CSV data', () => {
       const invalidCSV = `name,address,lat,lon,radius
 Invalid Store,123 Main St,invalid,invalid,100`;
 
-      const result = importCSV(invalidCSV, 'test-network', 'Test Network');
+      const result = parseLocationsCSV(invalidCSV, 'test-network', 'Test Network');
+
+      expect(result.locations).toHaveLength(0);
+      expect(result.errors.length).toBeGreaterThan(0);
+    });
+
+    it('should save a new network and its locations in one transaction', async () => {
+      const result = await importCSV(sampleCSV, 'test-network', 'Test Network', { category: 'grocery', aliases: ['Test'] });
+
+      expect(result).toEqual({ success: true, imported: 2, errors: [] });
+      expect(mockQuery.mock.calls.map(([sql]) => sql.trim().split(/\s+/).slice(0, 3).join(' '))).toEqual([
+        'SELECT id, name,',
+        'BEGIN',
+        'INSERT INTO networks',
+        'INSERT INTO locations',
+        'COMMIT'
+      ]);
+
+      const [network] = queriesMatching('INSERT INTO networks');
+      expect(network.params).toEqual(['test-network', 'Test Network', ['Test Network', 'Test'], 'grocery', null, false, 'grocery']);
+
+      const [locations] = queriesMatching('INSERT INTO locations');
+      expect(locations.sql).toContain('ST_SetSRID(ST_MakePoint(t.lon, t.lat), 4326)::geography');
+      expect(locations.params).toEqual([
+        'test-network',
+        'Test Network',
+        ['test-network:37.7749:-122.4194', 'test-network:37.7849:-122.4294'],
+        [37.7749, 37.7849],
+        [-122.4194, -122.4294],
+        [100, 80],
+        ['Test Store', 'Another Store'],
+        ['', '']
+      ]);
+      expect(queriesMatching('SET removed_at')).toEqual([]);
+    });
+
+    it('should tombstone locations missing from a re-import', async () => {
+      const network = { id: 'test-network', name: 'Test Network', category: 'grocery' };
+      storedNetwork = {
+        row: { ...network, canonical_names: [network.name], default_radius_meters: null },
+        locations: [
+          locationRow(network, { lat: 37.7749, lon: -122.4194, radius_meters: 100, notes: 'Test Store' }),
+          locationRow(network, { lat: 37.9, lon: -122.3, notes: 'Closed Store' })
+        ]
+      };
+
+      await importCSV(sampleCSV, 'test-network', 'Test Network');
+
+      expect(queriesMatching('WHERE l.network_id = $1')[0].params).toEqual(['test-network', true]);
+      expect(queriesMatching('SET removed_at')[0].params).toEqual(['test-network', ['test-network:37.9:-122.3']]);
+      // No category given: the network keeps its own
+      expect(queriesMatching('INSERT INTO networks')[0].params[6]).toBeNull();
+    });
+
+    it('should not tombstone anything when some rows are invalid', async () => {
+      const network = { id: 'test-network', name: 'Test Network' };
+      storedNetwork = {
+        row: { ...network, canonical_names: [network.name], category: 'other', default_radius_meters: null },
+        locations: [locationRow(network, { lat: 37.9, lon: -122.3 })]
+      };
+
+      const result = await importCSV(`${sampleCSV}
+Broken Store,789 Elm St,invalid,invalid,100`, 'test-network', 'Test Network');
 
-      expect(result.success).toBe(false);
-      expect(result.imported).toBe(0);
       expect(result.errors.length).toBeGreaterThan(0);
+      expect(queriesMatching('SET removed_at')).toEqual([]);
+    });
+
+    it('should keep, set or clear a network default radius', async () => {
+      const base = { id: 'test-network', name: 'Test Network', locations: [] };
+
+      await saveNetwork(base);
+      await saveNetwork({ ...base, default_radius_meters: 250 });
+      await saveNetwork({ ...base, default_radius_meters: null });
+
+      expect(queriesMatching('INSERT INTO networks').map(q => q.params.slice(4, 6))).toEqual([
+        [null, false],
+        [250, true],
+        [null, true]
+      ]);
+      expect(queriesMatching('INSERT INTO locations')).toEqual([]);
+    });
+
+    it('should roll back when a statement fails', async () => {
+      mockQuery.mockImplementation(async (sql: string, params?: any[]) => {
+        if (sql.includes('INSERT INTO locations')) {
+          throw new Error('constraint violation');
+        }
+        return routeQuery(sql, params);
+      });
+
+      const result = await importCSV(sampleCSV, 'test-network', 'Test Network');
+
+      expect(result).toEqual({ success: false, imported: 0, errors: ['Import failed: constraint violation'] });
+      expect(queriesMatching('ROLLBACK')).toHaveLength(1);
+      expect(queriesMatching('COMMIT')).toEqual([]);
+    });
+
+    it('should read a network and resolve its location radii', async () => {
+      const network = { id: 'costco-test', name: 'Costco Wholesale', category: 'warehouse_club' };
+      storedNetwork = {
+        row: { ...network, canonical_names: ['Costco'], default_radius_meters: null },
+        locations: [
+          locationRow(network, { lat: 37.7749, lon: -122.4194, radius_meters: 90 }),
+          locationRow(network, { lat: 37.7849, lon: -122.4294 })
+        ]
+      };
+
+      const result = await getNetworkById('costco-test');
+
+      expect(queriesMatching('WHERE l.network_id = $1')[0].params).toEqual(['costco-test', false]);
+      expect(result).toMatchObject({ id: 'costco-test', name: 'Costco Wholesale', aliases: ['Costco'], category: 'warehouse_club' });
+      expect(result?.locations.map(loc => [loc.radius_meters, loc.radius_source])).toEqual([
+        [90, 'location'],
+        [250, 'category']
+      ]);
+      expect(await getNetworkById('unknown')).toBeNull();
+    });
+  });
+
+  describe('Network import', () => {
+    const geojson = {
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [-122.4194, 37.7749] }, properties: { Name: 'Test Store', radius: 120 } },
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [-122.4294, 37.7849] }, properties: { name: 'Moved Store' } },
+        { type: 'Feature', geometry: { type: 'LineString', coordinates: [] }, properties: {} },
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [-222, 37] }, properties: {} }
+      ]
+    };
+
+    it('should parse GeoJSON point features and report invalid ones', () => {
+      const result = parseLocationsGeoJSON(geojson, 'test-network', 'Test Network');
+
+      expect(result.locations).toHaveLength(2);
+      expect(result.locations[0]).toMatchObject({ lat: 37.7749, lon: -122.4194, radius_meters: 120, notes: 'Test Store' });
+      expect(result.errors).toEqual([
+        'Feature 3: Geometry must be a Point',
+        'Feature 4: Invalid coordinates (lat: 37, lon: -222)'
+      ]);
+      expect(parseLocationsGeoJSON('{"type":"Point"}', 'test-network', 'Test Network').errors).toHaveLength(1);
+    });
+
+    it('should diff an import against existing locations', () => {
+      const existing = parseLocationsCSV(`name,lat,lon,radius
+Test Store,37.7749,-122.4194,100
+Closed Store,37.7,-122.4,100
+Same Store,37.8,-122.3,100`, 'test-network', 'Test Network').locations;
+      const incoming = parseLocationsCSV(`name,lat,lon,radius
+Test Store,37.7749,-122.4194,120
+Same Store,37.8,-122.3,100
+New Store,37.9,-122.2,100`, 'test-network', 'Test Network').locations;
+
+      const diff = diffLocations(existing, incoming);
+
+      expect(diff.added.map(loc => loc.notes)).toEqual(['New Store']);
+      expect(diff.updated.map(change => [change.before.radius_meters, change.after.radius_meters])).toEqual([[100, 120]]);
+      expect(diff.removed.map(loc => loc.notes)).toEqual(['Closed Store']);
+      expect(diff.unchanged).toBe(1);
+    });
+
+    it('should keep location ids stable by store_id when a store moves', () => {
+      const before = parseLocationsCSV(`store_id,name,lat,lon
+101,Test Store,37.7749,-122.4194`, 'test-network', 'Test Network').locations;
+      const after = parseLocationsCSV(`store_id,name,lat,lon
+101,Test Store,37.7751,-122.4190`, 'test-network', 'Test Network').locations;
+
+      expect(before[0].id).toBe('test-network:ref:101');
+      expect(after[0].id).toBe(before[0].id);
+
+      const diff = diffLocations(before, after);
+      expect(diff.updated).toHaveLength(1);
+      expect(diff.added).toHaveLength(0);
+      expect(diff.removed).toHaveLength(0);
+    });
+
+    it('should adopt coordinate ids when a network gains store numbers', () => {
+      const legacy = parseLocationsCSV(`name,lat,lon
+Test Store,37.7749,-122.4194
+Closed Store,37.7,-122.4`, 'test-network', 'Test Network').locations;
+      const keyed = parseLocationsCSV(`ref,name,lat,lon
+A1,Test Store,37.7749,-122.4194`, 'test-network', 'Test Network').locations;
+
+      const reconciled = reconcileLocationIds(legacy, keyed);
+
+      expect(reconciled[0]).toMatchObject({ id: 'test-network:37.7749:-122.4194', external_key: 'A1' });
+      expect(diffLocations(legacy, reconciled).removed.map(loc => loc.notes)).toEqual(['Closed Store']);
     });
+  });
+
+  describe('Geofence radius', () => {
+    const categoryRadii = new Map([['warehouse_club', 250], ['coffee_shop', 50], ['grocery', 120]]);
+
+    it('should prefer the location override, then the network default, then the category default', () => {
+      const categories = ['shop=wholesale'];
 
-    it('should retrieve imported network data', () => {
-      // First import some data
-      importCSV(sampleCSV, 'test-network', 'Test Network');
+      expect(resolveGeofenceRadius({ locationRadius: 90, networkRadius: 300, categories }, categoryRadii))
+        .toEqual({ radiusMeters: 90, source: 'location' });
+      expect(resolveGeofenceRadius({ locationRadius: null, networkRadius: 300, categories }, categoryRadii))
+        .toEqual({ radiusMeters: 300, source: 'network' });
+      expect(resolveGeofenceRadius({ categories }, categoryRadii))
+        .toEqual({ radiusMeters: 250, source: 'category' });
+    });
+
+    it('should map provider categories and network names onto category defaults', () => {
+      expect(resolveGeofenceRadius({ categories: ['Coffee Shop'] }, categoryRadii).radiusMeters).toBe(50);
+      expect(resolveGeofenceRadius({ categories: ['other', 'Costco Wholesale'] }, categoryRadii).radiusMeters).toBe(250);
+      expect(resolveGeofenceRadius({ categories: ['supermarket'] }, categoryRadii).radiusMeters).toBe(120);
+    });
+
+    it('should fall back to the heuristic when nothing else has a radius', () => {
+      expect(resolveGeofenceRadius({ categories: ['theme_park'] }, new Map())).toEqual({ radiusMeters: 2000, source: 'heuristic' });
+      expect(resolveGeofenceRadius({}, categoryRadii)).toEqual({ radiusMeters: 100, source: 'heuristic' });
+    });
 
-      // Then retrieve it
-      const network = getNetworkById('test-network');
+    it('should leave the radius unset on imports without one', () => {
+      const { locations } = parseLocationsCSV(`name,lat,lon,radius
+With Radius,37.7749,-122.4194,180
+Without Radius,37.7849,-122.4294,`, 'test-network', 'Test Network');
 
-      expect(network).toBeTruthy();
-      expect(network?.id).toBe('test-network');
-      expect(network?.name).toBe('Test Network');
-      expect(network?.locations).toHaveLength(2);
+      expect(locations[0]).toMatchObject({ radius_meters: 180, radius_override: 180 });
+      expect(locations[1].radius_override).toBeUndefined();
     });
   });
 
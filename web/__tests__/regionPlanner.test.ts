@@ -0,0 +1,117 @@
+import { haversineDistance } from '../lib/places/geoIndex';
+import { IOS_REGION_LIMIT, REFRESH_BOUNDARY_ID, planGeofences } from '../lib/regions/planner';
+import { RegionLocation } from '../lib/regions/types';
+import { Wallet, cardIdsForRegionLocation } from '../lib/regions/wallet';
+
+const origin = { lat: 37.7749, lon: -122.4194 };
+
+// ~111m per 0.001 degrees of latitude
+function store(id: string, dLat: number, dLon: number = 0, overrides: Partial<RegionLocation> = {}): RegionLocation {
+  return {
+    id,
+    kind: 'curated',
+    name: id,
+    lat: origin.lat + dLat,
+    lon: origin.lon + dLon,
+    radiusMeters: 100,
+    ...overrides
+  };
+}
+
+describe('planGeofences', () => {
+  it('should stay within the region budget and leave a slot for the refresh boundary', () => {
+    const locations = Array.from({ length: 40 }, (_, i) => store(`curated:s${i}`, 0.005 * (i + 1)));
+
+    const plan = planGeofences(origin, locations, { searchRadiusMeters: 20000 });
+    expect(plan.budget).toBe(IOS_REGION_LIMIT);
+    expect(plan.regions).toHaveLength(IOS_REGION_LIMIT - 1);
+
+    const shared = planGeofences(origin, locations, { reservedRegions: 5, searchRadiusMeters: 20000 });
+    expect(shared.budget).toBe(IOS_REGION_LIMIT - 5);
+    expect(shared.regions).toHaveLength(IOS_REGION_LIMIT - 6);
+  });
+
+  it('should merge overlapping stores into one region that covers each of them', () => {
+    const locations = [
+      store('curated:a', 0.01),
+      store('brand:b', 0.0105),
+      store('curated:c', 0.011),
+      store('curated:far', 0.03)
+    ];
+
+    const plan = planGeofences(origin, locations);
+    expect(plan.regions).toHaveLength(2);
+
+    const cluster = plan.regions.find(r => r.memberIds.length > 1)!;
+    expect(cluster.id).toMatch(/^cluster:/);
+    expect(cluster.memberIds).toEqual(['brand:b', 'curated:a', 'curated:c']);
+
+    for (const member of locations.slice(0, 3)) {
+      const distance = haversineDistance(cluster.lat, cluster.lon, member.lat, member.lon);
+      expect(distance + member.radiusMeters).toBeLessThanOrEqual(cluster.radiusMeters + 1);
+    }
+  });
+
+  it('should not merge stores past the maximum cluster radius', () => {
+    const locations = [store('curated:a', 0.01), store('curated:b', 0.0115)];
+
+    const plan = planGeofences(origin, locations, { maxClusterRadiusMeters: 150 });
+    expect(plan.regions.map(r => r.id).sort()).toEqual(['curated:a', 'curated:b']);
+  });
+
+  it('should rank places where the user has used their cards above closer stores', () => {
+    const locations = [
+      ...Array.from({ length: 25 }, (_, i) => store(`curated:near${i}`, 0.004 * (i + 1), 0.002)),
+      store('curated:favorite', -0.04),
+      store('card-location:1', -0.0401, 0, { kind: 'card', cardIds: ['card-1'] }),
+      store('card-location:2', -0.0399, 0, { kind: 'card', cardIds: ['card-1'] })
+    ];
+
+    const plan = planGeofences(origin, locations);
+    expect(plan.regions[0].memberIds).toContain('curated:favorite');
+    expect(plan.regions[0].usageCount).toBe(2);
+  });
+
+  it('should size the refresh boundary by the closest region that was left out', () => {
+    const locations = Array.from({ length: 30 }, (_, i) => store(`curated:s${i}`, 0.005 * (i + 1)));
+
+    const plan = planGeofences(origin, locations, { searchRadiusMeters: 20000 });
+    const nearestExcluded = Math.min(
+      ...locations
+        .filter(loc => !plan.regions.some(r => r.memberIds.includes(loc.id)))
+        .map(loc => haversineDistance(origin.lat, origin.lon, loc.lat, loc.lon) - loc.radiusMeters)
+    );
+
+    expect(plan.refreshBoundary.id).toBe(REFRESH_BOUNDARY_ID);
+    expect(plan.refreshBoundary.lat).toBe(origin.lat);
+    expect(plan.refreshBoundary.radiusMeters).toBeGreaterThanOrEqual(200);
+    expect(plan.refreshBoundary.radiusMeters).toBeLessThanOrEqual(nearestExcluded / 2 + 1);
+  });
+
+  it('should fall back to half the search radius when every location fits', () => {
+    const plan = planGeofences(origin, [store('curated:only', 0.001)], { searchRadiusMeters: 4000 });
+    expect(plan.regions).toHaveLength(1);
+    expect(plan.refreshBoundary.radiusMeters).toBe(2000);
+  });
+
+  it('should give the slots to places the user has a card for, even when farther', () => {
+    const wallet: Wallet = {
+      cards: [{ id: 'card_costco', name: 'Costco', cardType: 'membership', networkIds: ['costco'] }],
+      networks: [{ id: 'costco', names: ['Costco Wholesale'] }],
+      grants: new Map([['costco', [{ cardId: 'card_costco' }]]])
+    };
+    const locations = [
+      store('curated:target', 0.005, 0, { networkId: 'target' }),
+      store('curated:costco', 0.02, 0, { networkId: 'costco' })
+    ];
+
+    const plan = planGeofences(origin, locations, {
+      reservedRegions: IOS_REGION_LIMIT - 2,
+      cardIdsAt: location => cardIdsForRegionLocation(wallet, location)
+    });
+
+    expect(plan.regions.map(region => region.id)).toEqual(['curated:costco']);
+    expect(planGeofences(origin, locations, { reservedRegions: IOS_REGION_LIMIT - 2 }).regions.map(region => region.id))
+      .toEqual(['curated:target']);
+  });
+});
@@ -0,0 +1,392 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface DiscoveredNetwork {
+  networkId: string;
+  networkName: string;
+  category?: string;
+}
+
+interface Proposal {
+  id: string;
+  brandId: string;
+  status: 'pending' | 'approved' | 'rejected' | 'superseded';
+  proposed: {
+    name: string;
+    issuer: string;
+    description: string;
+    category: string;
+    acceptedNetworks: DiscoveredNetwork[];
+  };
+  diff: {
+    isNew: boolean;
+    changes: Array<{ field: string; before: string | null; after: string | null }>;
+    addedNetworkIds: string[];
+    removedNetworkIds: string[];
+  };
+  confidence: number | null;
+  rawResponse: string | null;
+  model: string | null;
+  cardName: string;
+  barcode: string | null;
+  brandVerified: boolean;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
+  createdAt: string;
+}
+
+const STATUS_STYLES: Record<Proposal['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  superseded: 'bg-gray-100 text-gray-800',
+};
+
+export default function GiftCardProposalsPage() {
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filterStatus, setFilterStatus] = useState<string>('pending');
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const [formData, setFormData] = useState({
+    name: '',
+    issuer: '',
+    description: '',
+    category: '',
+    networks: '',
+  });
+
+  useEffect(() => {
+    fetchProposals();
+  }, [filterStatus]);
+
+  const fetchProposals = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (filterStatus) {
+        params.set('status', filterStatus);
+      }
+
+      const response = await fetch(`/api/v1/admin/gift-card-brand-proposals?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch proposals');
+
+      const data = await response.json();
+      setProposals(data.proposals || []);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const approve = async (proposal: Proposal, edits?: Partial<Proposal['proposed']>, force = false) => {
+    try {
+      const response = await fetch(`/api/v1/admin/gift-card-brand-proposals/${proposal.id}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ edits, force }),
+      });
+
+      if (response.status === 409 && !force) {
+        const data = await response.json();
+        if (confirm(`${data.error}. Approve anyway and overwrite it?`)) {
+          await approve(proposal, edits, true);
+        }
+        return;
+      }
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to approve proposal');
+      }
+
+      setEditingId(null);
+      await fetchProposals();
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const reject = async (proposal: Proposal) => {
+    const notes = prompt('Reason for rejecting (optional)');
+    if (notes === null) return;
+
+    try {
+      const response = await fetch(`/api/v1/admin/gift-card-brand-proposals/${proposal.id}/reject`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notes }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to reject proposal');
+      }
+
+      await fetchProposals();
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const handleEdit = (proposal: Proposal) => {
+    setEditingId(proposal.id);
+    setFormData({
+      name: proposal.proposed.name,
+      issuer: proposal.proposed.issuer,
+      description: proposal.proposed.description || '',
+      category: proposal.proposed.category || '',
+      networks: proposal.proposed.acceptedNetworks
+        .map((n) => `${n.networkId}, ${n.networkName}`)
+        .join('\n'),
+    });
+  };
+
+  // One "network-id, Network Name" per line
+  const handleSubmitEdit = async (e: React.FormEvent, proposal: Proposal) => {
+    e.preventDefault();
+
+    const acceptedNetworks = formData.networks
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => {
+        const [networkId, ...name] = line.split(',');
+        const existing = proposal.proposed.acceptedNetworks.find((n) => n.networkId === networkId.trim());
+        return {
+          networkId: networkId.trim(),
+          networkName: name.join(',').trim() || networkId.trim(),
+          category: existing?.category,
+        };
+      });
+
+    await approve(proposal, {
+      name: formData.name,
+      issuer: formData.issuer,
+      description: formData.description,
+      category: formData.category,
+      acceptedNetworks,
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-gray-500">Loading proposals...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Gift Card Proposals</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Review AI-discovered gift card brands before they change the catalog
+          </p>
+        </div>
+        <select
+          value={filterStatus}
+          onChange={(e) => setFilterStatus(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        >
+          <option value="pending">Pending</option>
+          <option value="approved">Approved</option>
+          <option value="rejected">Rejected</option>
+          <option value="superseded">Superseded</option>
+          <option value="">All</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {proposals.length === 0 ? (
+        <div className="bg-white shadow rounded-lg p-6 text-center text-gray-500">
+          No proposals found
+        </div>
+      ) : (
+        proposals.map((proposal) => (
+          <div key={proposal.id} className="bg-white shadow rounded-lg p-6 space-y-4">
+            <div className="flex justify-between items-start">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <h3 className="text-lg font-medium text-gray-900">{proposal.proposed.name}</h3>
+                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[proposal.status]}`}>
+                    {proposal.status}
+                  </span>
+                  {proposal.diff.isNew ? (
+                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                      New brand
+                    </span>
+                  ) : proposal.brandVerified && (
+                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">
+                      Changes a verified brand
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-500">
+                  {proposal.brandId} • scanned as &quot;{proposal.cardName}&quot;
+                  {proposal.barcode && ` • barcode ${proposal.barcode}`}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {proposal.confidence !== null
+                    ? `${(proposal.confidence * 100).toFixed(0)}% confidence`
+                    : 'No confidence given'}
+                  {proposal.model && ` • ${proposal.model}`}
+                  {' • '}
+                  {new Date(proposal.createdAt).toLocaleString()}
+                </p>
+              </div>
+
+              {proposal.status === 'pending' && (
+                <div className="space-x-4 text-sm font-medium">
+                  <button
+                    onClick={() => approve(proposal)}
+                    className="text-green-600 hover:text-green-900"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => handleEdit(proposal)}
+                    className="text-indigo-600 hover:text-indigo-900"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => reject(proposal)}
+                    className="text-red-600 hover:text-red-900"
+                  >
+                    Reject
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Field
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Current
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Proposed
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {proposal.diff.changes.map((change) => (
+                  <tr key={change.field}>
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">{change.field}</td>
+                    <td className="px-4 py-2 text-sm text-red-700">{change.before ?? '-'}</td>
+                    <td className="px-4 py-2 text-sm text-green-700">{change.after ?? '-'}</td>
+                  </tr>
+                ))}
+                {(proposal.diff.addedNetworkIds.length > 0 || proposal.diff.removedNetworkIds.length > 0) && (
+                  <tr>
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">networks</td>
+                    <td className="px-4 py-2 text-sm text-red-700">
+                      {proposal.diff.removedNetworkIds.map((id) => `- ${id}`).join(', ') || '-'}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-green-700">
+                      {proposal.diff.addedNetworkIds.map((id) => `+ ${id}`).join(', ') || '-'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+
+            {editingId === proposal.id && (
+              <form onSubmit={(e) => handleSubmitEdit(e, proposal)} className="space-y-4 border-t border-gray-200 pt-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {(['name', 'issuer', 'category'] as const).map((field) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-gray-700 capitalize">
+                        {field}
+                      </label>
+                      <input
+                        type="text"
+                        required={field !== 'category'}
+                        value={formData[field]}
+                        onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      />
+                    </div>
+                  ))}
+
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Description
+                    </label>
+                    <textarea
+                      value={formData.description}
+                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                      rows={2}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Accepted networks (one &quot;network-id, Network Name&quot; per line)
+                    </label>
+                    <textarea
+                      value={formData.networks}
+                      onChange={(e) => setFormData({ ...formData, networks: e.target.value })}
+                      rows={5}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm font-mono text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+                  >
+                    Approve with Edits
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {proposal.reviewedBy && (
+              <p className="text-sm text-gray-500">
+                Reviewed by {proposal.reviewedBy}
+                {proposal.reviewedAt && ` on ${new Date(proposal.reviewedAt).toLocaleDateString()}`}
+                {proposal.reviewNotes && `: ${proposal.reviewNotes}`}
+              </p>
+            )}
+
+            {proposal.rawResponse && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-gray-500">Raw model response</summary>
+                <pre className="mt-2 p-3 bg-gray-50 rounded overflow-x-auto text-xs text-gray-700 whitespace-pre-wrap">
+                  {proposal.rawResponse}
+                </pre>
+              </details>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -62,6 +62,12 @@ export default async function AdminLayout({
                 >
                   Templates
                 </Link>
+                <Link
+                  href="/admin/gift-card-proposals"
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Gift Cards
+                </Link>
               </div>
             </div>
             <div className="flex items-center">
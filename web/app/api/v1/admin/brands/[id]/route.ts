@@ -62,6 +62,7 @@ export async function GET(
       primaryPhone: brand.primary_phone,
       category: brand.category,
       verified: brand.verified,
+      defaultRadiusMeters: brand.default_radius_meters ?? null,
       locations: brand.locations || [],
       templates: brand.templates || [],
       createdAt: brand.created_at,
@@ -104,6 +105,7 @@ export async function PATCH(
       primaryPhone,
       category,
       verified,
+      defaultRadiusMeters,
     } = body;
 
     const updates: string[] = [];
@@ -164,6 +166,19 @@ export async function PATCH(
       values.push(verified);
     }
 
+    // Geofence radius for this brand's locations; null falls back to the category default
+    if (defaultRadiusMeters !== undefined) {
+      if (defaultRadiusMeters !== null && (typeof defaultRadiusMeters !== 'number' || defaultRadiusMeters <= 0)) {
+        return NextResponse.json(
+          { error: 'Invalid default radius' },
+          { status: 400 }
+        );
+      }
+      paramCount++;
+      updates.push(`default_radius_meters = $${paramCount}`);
+      values.push(defaultRadiusMeters === null ? null : Math.round(defaultRadiusMeters));
+    }
+
     if (updates.length === 0) {
       return NextResponse.json(
         { error: 'No fields to update' },
@@ -202,6 +217,7 @@ export async function PATCH(
       primaryPhone: brand.primary_phone,
       category: brand.category,
       verified: brand.verified,
+      defaultRadiusMeters: brand.default_radius_meters ?? null,
       createdAt: brand.created_at,
       updatedAt: brand.updated_at,
     });
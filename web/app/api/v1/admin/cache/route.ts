@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '@/lib/adminAuth';
+import { getCacheMetrics, getCacheNamespaces, hitRate } from '@/lib/cacheMetrics';
+import { getTokenUsage } from '@/lib/ai/usage';
+import { placesCache } from '@/lib/places/cache';
+// Imported for their cache namespace registrations
+import '@/lib/places/providers';
+import '@/lib/places/details';
+import '@/lib/services/iconService';
+
+const KEY_COUNT_LIMIT = 10000;
+
+/**
+ * GET /api/v1/admin/cache
+ * List cache namespaces with key counts and hit/miss/stale counters, plus AI
+ * token usage per provider and tool.
+ *   ?prefix=nominatim:v1:search:  list matching keys (up to ?limit=, 1-1000, default 100)
+ *   ?key=icon:costco             inspect one key's stored value and TTL
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdminAuth();
+
+    const { searchParams } = new URL(request.url);
+    const key = searchParams.get('key');
+    const prefix = searchParams.get('prefix');
+
+    if (key) {
+      if (!isManagedKey(key)) {
+        return NextResponse.json(
+          { error: 'Key is not in a known cache namespace' },
+          { status: 400 }
+        );
+      }
+
+      const entry = await placesCache.inspect(key);
+      if (!entry) {
+        return NextResponse.json(
+          { error: 'Key not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ key, ...entry });
+    }
+
+    if (prefix) {
+      if (!isManagedKey(prefix)) {
+        return NextResponse.json(
+          { error: 'Prefix is not in a known cache namespace' },
+          { status: 400 }
+        );
+      }
+
+      const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100') || 100, 1), 1000);
+      const keys = await placesCache.keys(prefix, limit);
+      return NextResponse.json({ prefix, keys });
+    }
+
+    const metrics = await getCacheMetrics();
+    const namespaces = await Promise.all(getCacheNamespaces().map(async ({ name, keyPrefix }) => {
+      const counters = metrics[name] || { hit: 0, miss: 0, stale: 0, negative: 0 };
+      const keyCount = (await placesCache.keys(keyPrefix, KEY_COUNT_LIMIT)).length;
+
+      return {
+        name,
+        keyPrefix,
+        keys: keyCount,
+        keysTruncated: keyCount >= KEY_COUNT_LIMIT,
+        metrics: counters,
+        hitRate: hitRate(counters)
+      };
+    }));
+
+    return NextResponse.json({ namespaces, tokenUsage: await getTokenUsage() });
+  } catch (error: any) {
+    console.error('GET /admin/cache error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/admin/cache
+ *   ?key=icon:fail:costco    delete one key
+ *   ?prefix=nominatim:       purge every key with the prefix
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    await requireAdminAuth();
+
+    const { searchParams } = new URL(request.url);
+    const key = searchParams.get('key');
+    const prefix = searchParams.get('prefix');
+
+    if (!key && !prefix) {
+      return NextResponse.json(
+        { error: 'key or prefix is required' },
+        { status: 400 }
+      );
+    }
+
+    const target = (key || prefix) as string;
+    if (!isManagedKey(target)) {
+      return NextResponse.json(
+        { error: 'Only keys in a known cache namespace can be deleted' },
+        { status: 400 }
+      );
+    }
+
+    if (key) {
+      await placesCache.delete(key);
+      return NextResponse.json({ success: true, deleted: 1 });
+    }
+
+    const deleted = await placesCache.purge(target);
+    return NextResponse.json({ success: true, deleted });
+  } catch (error: any) {
+    console.error('DELETE /admin/cache error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Keeps the endpoint away from rate limit buckets, metrics and anything else in KV
+function isManagedKey(keyOrPrefix: string): boolean {
+  return getCacheNamespaces().some(({ keyPrefix }) => keyOrPrefix.startsWith(keyPrefix));
+}
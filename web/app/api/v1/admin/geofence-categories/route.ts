@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '@/lib/adminAuth';
+import {
+  MAX_CATEGORY_RADIUS_METERS,
+  MIN_CATEGORY_RADIUS_METERS,
+  deleteCategoryRadius,
+  listCategoryRadii,
+  setCategoryRadius
+} from '@/lib/places/categoryRadiusRepository';
+
+/**
+ * GET /api/v1/admin/geofence-categories
+ * Default geofence radius per category
+ */
+export async function GET() {
+  try {
+    await requireAdminAuth();
+
+    const categories = await listCategoryRadii();
+
+    return NextResponse.json({ categories });
+  } catch (error: any) {
+    console.error('GET /admin/geofence-categories error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/v1/admin/geofence-categories
+ * Body: { category, radiusMeters } - create or change a category default
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const admin = await requireAdminAuth();
+
+    const body = await request.json();
+    const { category, radiusMeters } = body;
+
+    if (typeof category !== 'string' || !category.trim()) {
+      return NextResponse.json(
+        { error: 'Category is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof radiusMeters !== 'number' ||
+        radiusMeters < MIN_CATEGORY_RADIUS_METERS || radiusMeters > MAX_CATEGORY_RADIUS_METERS) {
+      return NextResponse.json(
+        { error: `radiusMeters must be between ${MIN_CATEGORY_RADIUS_METERS} and ${MAX_CATEGORY_RADIUS_METERS}` },
+        { status: 400 }
+      );
+    }
+
+    const saved = await setCategoryRadius(category, radiusMeters, admin.email);
+
+    return NextResponse.json(saved);
+  } catch (error: any) {
+    console.error('PUT /admin/geofence-categories error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/admin/geofence-categories?category=coffee_shop
+ * Remove a category default; its locations fall back to the heuristic
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    await requireAdminAuth();
+
+    const { searchParams } = new URL(request.url);
+    const category = searchParams.get('category');
+
+    if (!category) {
+      return NextResponse.json(
+        { error: 'Category is required' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteCategoryRadius(category);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('DELETE /admin/geofence-categories error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '@/lib/adminAuth';
+import { deleteBarcodeRule, getBarcodeRule, updateBarcodeRule } from '@/lib/giftCards/barcodeRuleRepository';
+import { BarcodeRuleInput, normalizeBarcode, validateBarcodeRule } from '@/lib/giftCards/barcodeRules';
+
+/**
+ * PUT /api/v1/admin/gift-card-barcode-rules/[id]
+ * Body: any of { brandId, prefix, lengths, checksum, priority, enabled, notes };
+ * omitted fields keep their current value
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await requireAdminAuth();
+
+    const existing = await getBarcodeRule(params.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const input: BarcodeRuleInput = {
+      brandId: body.brandId === undefined ? existing.brandId : typeof body.brandId === 'string' ? body.brandId.trim() : '',
+      prefix: body.prefix === undefined ? existing.prefix : typeof body.prefix === 'string' ? normalizeBarcode(body.prefix) : '',
+      lengths: body.lengths ?? existing.lengths,
+      checksum: body.checksum ?? existing.checksum,
+      priority: body.priority ?? existing.priority,
+      enabled: typeof body.enabled === 'boolean' ? body.enabled : existing.enabled,
+      notes: body.notes === undefined ? existing.notes : typeof body.notes === 'string' ? body.notes : null
+    };
+
+    const errors = validateBarcodeRule(input);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const rule = await updateBarcodeRule(params.id, input, admin.email);
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(rule);
+  } catch (error: any) {
+    console.error('PUT /admin/gift-card-barcode-rules/[id] error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error.code === '23503') {
+      return NextResponse.json(
+        { error: 'Invalid brand ID' },
+        { status: 400 }
+      );
+    }
+
+    if (error.code === '23505') {
+      return NextResponse.json(
+        { error: 'This brand already has a rule with this prefix and lengths' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/admin/gift-card-barcode-rules/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireAdminAuth();
+
+    const deleted = await deleteBarcodeRule(params.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('DELETE /admin/gift-card-barcode-rules/[id] error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
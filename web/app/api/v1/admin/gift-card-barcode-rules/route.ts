@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '@/lib/adminAuth';
+import { createBarcodeRule, listBarcodeRules } from '@/lib/giftCards/barcodeRuleRepository';
+import { BarcodeRuleInput, identifyBarcode, normalizeBarcode, validateBarcodeRule } from '@/lib/giftCards/barcodeRules';
+
+/**
+ * GET /api/v1/admin/gift-card-barcode-rules?brandId=&barcode=
+ * Barcode rules, optionally for one brand. With `barcode`, also shows which rule
+ * (if any) identifies it.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdminAuth();
+
+    const { searchParams } = new URL(request.url);
+    const brandId = searchParams.get('brandId') || undefined;
+    const barcode = searchParams.get('barcode');
+
+    const rules = await listBarcodeRules(brandId);
+
+    return NextResponse.json({
+      rules,
+      identification: barcode ? identifyBarcode(rules, barcode) : undefined
+    });
+  } catch (error: any) {
+    console.error('GET /admin/gift-card-barcode-rules error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/admin/gift-card-barcode-rules
+ * Body: { brandId, prefix, lengths?, checksum?, priority?, enabled?, notes? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdminAuth();
+
+    const body = await request.json();
+    const input: BarcodeRuleInput = {
+      brandId: typeof body.brandId === 'string' ? body.brandId.trim() : '',
+      prefix: typeof body.prefix === 'string' ? normalizeBarcode(body.prefix) : '',
+      lengths: body.lengths,
+      checksum: body.checksum,
+      priority: body.priority,
+      enabled: body.enabled !== false,
+      notes: typeof body.notes === 'string' ? body.notes : null
+    };
+
+    const errors = validateBarcodeRule(input);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const rule = await createBarcodeRule(input, admin.email);
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error: any) {
+    console.error('POST /admin/gift-card-barcode-rules error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error.code === '23503') {
+      return NextResponse.json(
+        { error: 'Invalid brand ID' },
+        { status: 400 }
+      );
+    }
+
+    if (error.code === '23505') {
+      return NextResponse.json(
+        { error: 'This brand already has a rule with this prefix and lengths' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
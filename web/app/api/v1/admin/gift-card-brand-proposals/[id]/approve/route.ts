@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '@/lib/adminAuth';
+import { approveProposal } from '@/lib/giftCards/brandProposalRepository';
+import { ProposedBrand } from '@/lib/giftCards/brandDiff';
+import { BrandChangedError, ProposalNotPendingError } from '@/lib/giftCards/errors';
+
+const EDITABLE_FIELDS = ['name', 'issuer', 'description', 'category'] as const;
+
+/**
+ * POST /api/v1/admin/gift-card-brand-proposals/[id]/approve
+ * Body: { edits?: { name, issuer, description, category, acceptedNetworks }, notes?, force? }
+ * Write the (edited) proposal to gift_card_brands and mark the brand verified.
+ * 409 if the brand changed since the proposal was made, unless force is set.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await requireAdminAuth();
+
+    const body = await request.json().catch(() => ({}));
+    const { edits = {}, notes, force } = body;
+
+    const validEdits: Partial<ProposedBrand> = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (edits[field] !== undefined) {
+        if (typeof edits[field] !== 'string' || (field !== 'description' && !edits[field].trim())) {
+          return NextResponse.json(
+            { error: `${field} must be a non-empty string` },
+            { status: 400 }
+          );
+        }
+        validEdits[field] = edits[field].trim();
+      }
+    }
+
+    if (edits.acceptedNetworks !== undefined) {
+      const valid = Array.isArray(edits.acceptedNetworks) && edits.acceptedNetworks.every((n: any) =>
+        n && typeof n.networkId === 'string' && n.networkId.trim() && typeof n.networkName === 'string'
+      );
+      if (!valid) {
+        return NextResponse.json(
+          { error: 'acceptedNetworks must be a list of { networkId, networkName, category? }' },
+          { status: 400 }
+        );
+      }
+      validEdits.acceptedNetworks = edits.acceptedNetworks;
+    }
+
+    const proposal = await approveProposal(params.id, admin.email, {
+      edits: validEdits,
+      notes: typeof notes === 'string' ? notes : undefined,
+      force: force === true
+    });
+
+    if (!proposal) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ proposal });
+  } catch (error: any) {
+    console.error('POST /admin/gift-card-brand-proposals/[id]/approve error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof ProposalNotPendingError || error instanceof BrandChangedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
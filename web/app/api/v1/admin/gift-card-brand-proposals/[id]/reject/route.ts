@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '@/lib/adminAuth';
+import { rejectProposal } from '@/lib/giftCards/brandProposalRepository';
+import { ProposalNotPendingError } from '@/lib/giftCards/errors';
+
+/**
+ * POST /api/v1/admin/gift-card-brand-proposals/[id]/reject
+ * Body: { notes? } - discard a pending proposal; the brand is left as it is
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await requireAdminAuth();
+
+    const body = await request.json().catch(() => ({}));
+
+    const proposal = await rejectProposal(params.id, admin.email, typeof body.notes === 'string' ? body.notes : undefined);
+
+    if (!proposal) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ proposal });
+  } catch (error: any) {
+    console.error('POST /admin/gift-card-brand-proposals/[id]/reject error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof ProposalNotPendingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '@/lib/adminAuth';
+import { getGiftCardBrand, getProposal } from '@/lib/giftCards/brandProposalRepository';
+
+/**
+ * GET /api/v1/admin/gift-card-brand-proposals/[id]
+ * A proposal with the brand as it is now
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireAdminAuth();
+
+    const proposal = await getProposal(params.id);
+    if (!proposal) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    const currentBrand = await getGiftCardBrand(proposal.brandId);
+
+    return NextResponse.json({ proposal, currentBrand });
+  } catch (error: any) {
+    console.error('GET /admin/gift-card-brand-proposals/[id] error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '@/lib/adminAuth';
+import { PROPOSAL_STATUSES, ProposalStatus, listProposals } from '@/lib/giftCards/brandProposalRepository';
+
+/**
+ * GET /api/v1/admin/gift-card-brand-proposals?status=pending&limit=50&offset=0
+ * AI-discovered gift card brands awaiting (or past) review, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdminAuth();
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || undefined;
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    if (status && !PROPOSAL_STATUSES.includes(status as ProposalStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${PROPOSAL_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { proposals, total } = await listProposals({
+      status: status as ProposalStatus | undefined,
+      limit,
+      offset
+    });
+
+    return NextResponse.json({
+      proposals,
+      pagination: {
+        limit,
+        offset,
+        total
+      }
+    });
+  } catch (error: any) {
+    console.error('GET /admin/gift-card-brand-proposals error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -65,6 +65,7 @@ export async function GET(
       placeId: location.place_id,
       verified: location.verified,
       notes: location.notes,
+      radiusMeters: location.radius_meters ?? null,
       templates: location.templates || [],
       createdAt: location.created_at,
       updatedAt: location.updated_at,
@@ -115,6 +116,7 @@ export async function PATCH(
       placeId,
       verified,
       notes,
+      radiusMeters,
     } = body;
 
     const updates: string[] = [];
@@ -241,6 +243,19 @@ export async function PATCH(
       values.push(notes || null);
     }
 
+    // null clears the override so the brand/category default applies
+    if (radiusMeters !== undefined) {
+      if (radiusMeters !== null && (typeof radiusMeters !== 'number' || radiusMeters <= 0)) {
+        return NextResponse.json(
+          { error: 'Invalid radius' },
+          { status: 400 }
+        );
+      }
+      paramCount++;
+      updates.push(`radius_meters = $${paramCount}`);
+      values.push(radiusMeters === null ? null : Math.round(radiusMeters));
+    }
+
     if (updates.length === 0) {
       return NextResponse.json(
         { error: 'No fields to update' },
@@ -288,6 +303,7 @@ export async function PATCH(
       placeId: location.place_id,
       verified: location.verified,
       notes: location.notes,
+      radiusMeters: location.radius_meters ?? null,
       createdAt: location.created_at,
       updatedAt: location.updated_at,
     });
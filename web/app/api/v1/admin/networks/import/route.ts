@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAuth } from '@/lib/adminAuth';
+import { parseLocationsCSV } from '@/lib/places/csvImporter';
+import { parseLocationsGeoJSON } from '@/lib/places/geojsonImporter';
+import { diffLocations, reconcileLocationIds } from '@/lib/places/importDiff';
+import { getNetworkById, saveNetwork } from '@/lib/places/networkRepository';
+import { NetworkImportResponse } from '@/lib/places/types';
+
+type ImportFormat = 'csv' | 'geojson';
+
+interface ImportInput {
+  networkId?: string;
+  networkName?: string;
+  category?: string;
+  aliases?: string[];
+  defaultRadiusMeters?: number | null; // null: clear the network's default
+  format?: ImportFormat;
+  data?: string | object;
+  dryRun: boolean;
+}
+
+/**
+ * POST /api/v1/admin/networks/import
+ * Replace a curated network's locations from a CSV or GeoJSON FeatureCollection.
+ * Rows are matched to existing locations by store_id / ref (falling back to
+ * coordinates); locations missing from the import are tombstoned.
+ *
+ * Accepts multipart/form-data (file, networkId, networkName, category, aliases,
+ * defaultRadiusMeters, dryRun) or JSON ({ networkId, networkName, category, aliases,
+ * defaultRadiusMeters, format, data, dryRun }). Rows without a radius inherit
+ * defaultRadiusMeters, then the category default; defaultRadiusMeters: null
+ * clears the network's default.
+ * With dryRun, nothing is written and the response shows what would change.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdminAuth();
+
+    const input = await readImportInput(request);
+    const { networkId, data } = input;
+
+    if (!networkId || !/^[a-z0-9][a-z0-9_-]*$/.test(networkId)) {
+      return NextResponse.json(
+        { error: 'networkId is required (lowercase letters, digits, "-" and "_")' },
+        { status: 400 }
+      );
+    }
+
+    if (input.defaultRadiusMeters !== undefined && input.defaultRadiusMeters !== null &&
+        (typeof input.defaultRadiusMeters !== 'number' || !(input.defaultRadiusMeters > 0))) {
+      return NextResponse.json(
+        { error: 'defaultRadiusMeters must be a positive number or null' },
+        { status: 400 }
+      );
+    }
+
+    if (!data || (typeof data === 'string' && !data.trim())) {
+      return NextResponse.json(
+        { error: 'Import data is required' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getNetworkById(networkId, { includeRemoved: true });
+    const active = (existing?.locations || []).filter(loc => !loc.removed_at);
+    const networkName = input.networkName?.trim() || existing?.name;
+
+    if (!networkName) {
+      return NextResponse.json(
+        { error: 'networkName is required for a new network' },
+        { status: 400 }
+      );
+    }
+
+    const format = input.format || detectFormat(data);
+
+    if (format === 'csv' && typeof data !== 'string') {
+      return NextResponse.json(
+        { error: 'CSV data must be sent as a string' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = typeof data === 'string' && format === 'csv'
+      ? parseLocationsCSV(data, networkId, networkName)
+      : parseLocationsGeoJSON(data, networkId, networkName);
+
+    const locations = reconcileLocationIds(existing?.locations || [], parsed.locations);
+    const diff = diffLocations(active, locations);
+
+    const response: NetworkImportResponse = {
+      dryRun: input.dryRun,
+      network: {
+        id: networkId,
+        name: networkName,
+        category: input.category || existing?.category || 'other',
+        created: !existing
+      },
+      summary: {
+        added: diff.added.length,
+        updated: diff.updated.length,
+        removed: diff.removed.length,
+        unchanged: diff.unchanged,
+        invalid: parsed.errors.length
+      },
+      diff,
+      errors: parsed.errors
+    };
+
+    if (input.dryRun) {
+      return NextResponse.json(response);
+    }
+
+    // Invalid rows would otherwise show up as removals; make the caller fix them first
+    if (parsed.errors.length > 0 || parsed.locations.length === 0) {
+      return NextResponse.json(
+        {
+          ...response,
+          error: parsed.errors.length > 0
+            ? 'Import contains invalid rows; nothing was committed'
+            : 'No valid locations found in import'
+        },
+        { status: 400 }
+      );
+    }
+
+    await saveNetwork(
+      {
+        id: networkId,
+        name: networkName,
+        category: input.category || existing?.category,
+        aliases: input.aliases,
+        default_radius_meters: input.defaultRadiusMeters,
+        locations
+      },
+      { tombstoneLocationIds: diff.removed.map(loc => loc.id) }
+    );
+
+    return NextResponse.json(response);
+  } catch (error: any) {
+    console.error('POST /admin/networks/import error:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+async function readImportInput(request: NextRequest): Promise<ImportInput> {
+  const { searchParams } = new URL(request.url);
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const aliases = formData.get('aliases') as string | null;
+    const defaultRadius = formData.get('defaultRadiusMeters') as string | null;
+
+    return {
+      networkId: (formData.get('networkId') || formData.get('network_id') || undefined) as string | undefined,
+      networkName: (formData.get('networkName') || undefined) as string | undefined,
+      category: (formData.get('category') || undefined) as string | undefined,
+      aliases: aliases ? aliases.split(',').map(a => a.trim()).filter(Boolean) : undefined,
+      defaultRadiusMeters: defaultRadius ? parseFloat(defaultRadius) : undefined,
+      format: parseFormat((formData.get('format') as string | null) || formatFromFilename(file?.name)),
+      data: file ? await file.text() : undefined,
+      dryRun: isTrue(formData.get('dryRun') as string | null) || isTrue(searchParams.get('dryRun'))
+    };
+  }
+
+  const body = await request.json();
+
+  return {
+    networkId: body.networkId,
+    networkName: body.networkName,
+    category: body.category,
+    aliases: Array.isArray(body.aliases) ? body.aliases : undefined,
+    defaultRadiusMeters: body.defaultRadiusMeters,
+    format: parseFormat(body.format),
+    data: body.data,
+    dryRun: body.dryRun === true || isTrue(searchParams.get('dryRun'))
+  };
+}
+
+function detectFormat(data: string | object): ImportFormat {
+  if (typeof data !== 'string') {
+    return 'geojson';
+  }
+  return data.trim().startsWith('{') ? 'geojson' : 'csv';
+}
+
+function parseFormat(value?: string | null): ImportFormat | undefined {
+  if (value === 'csv' || value === 'geojson') {
+    return value;
+  }
+  return undefined;
+}
+
+function formatFromFilename(filename?: string): string | undefined {
+  if (!filename) {
+    return undefined;
+  }
+  return /\.(geo)?json$/i.test(filename) ? 'geojson' : /\.csv$/i.test(filename) ? 'csv' : undefined;
+}
+
+function isTrue(value: string | null): boolean {
+  return value === 'true' || value === '1';
+}
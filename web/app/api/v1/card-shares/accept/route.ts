@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { logAuditEvent } from '@/lib/auditLog';
+import { getVerifiedEmails } from '@/lib/cards/requireCardAccess';
+import { ShareInviteError } from '@/lib/cards/errors';
+import { acceptShare } from '@/lib/cards/shareRepository';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/v1/card-shares/accept
+ * Body: { token } for a link (or email) invite, or { shareId } for an invite
+ * sent to one of the user's verified email addresses
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { token, shareId } = body;
+
+    if ((typeof token !== 'string' || !token) && (typeof shareId !== 'string' || !shareId)) {
+      return NextResponse.json(
+        { error: 'token or shareId is required' },
+        { status: 400 }
+      );
+    }
+
+    const share = await acceptShare(
+      typeof token === 'string' && token ? { token } : { shareId },
+      { userId, emails: await getVerifiedEmails() }
+    );
+
+    await logAuditEvent({
+      userId,
+      action: 'card.share.accepted',
+      resourceType: 'card_share',
+      resourceId: share.id,
+      details: { cardId: share.cardId, role: share.role, invitedBy: share.invitedBy }
+    });
+
+    return NextResponse.json({ share });
+  } catch (error) {
+    console.error('POST /card-shares/accept error:', error);
+
+    if (error instanceof ShareInviteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
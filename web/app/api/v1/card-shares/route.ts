@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getVerifiedEmails } from '@/lib/cards/requireCardAccess';
+import { listSharesForUser } from '@/lib/cards/shareRepository';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/v1/card-shares
+ * Cards shared with the signed-in user, and pending invites sent to their
+ * verified email addresses
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { shares, invitations } = await listSharesForUser(userId, await getVerifiedEmails());
+
+    return NextResponse.json({ shares, invitations });
+  } catch (error) {
+    console.error('GET /card-shares error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
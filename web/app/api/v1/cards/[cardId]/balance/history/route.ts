@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sql } from '@vercel/postgres';
+import { requireCardAccess } from '@/lib/cards/requireCardAccess';
+import { CardAccessError } from '@/lib/cards/errors';
 
 /**
  * GET /api/v1/cards/[cardId]/balance/history
- * Get balance history for a card
+ * Get the balances reported for a card, each with the ledger balance at the
+ * time and the discrepancy between them
  */
 export async function GET(
   request: NextRequest,
@@ -11,33 +14,24 @@ export async function GET(
 ) {
   try {
     const { cardId } = params;
-
-    if (!cardId) {
-      return NextResponse.json({ error: 'Card ID is required' }, { status: 400 });
-    }
+    await requireCardAccess(cardId, 'read');
 
     // Get URL params for pagination
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '50');
     const offset = parseInt(searchParams.get('offset') || '0');
 
-    // Verify card exists
-    const cardCheck = await sql`
-      SELECT id FROM cards WHERE id = ${cardId}
-    `;
-
-    if (cardCheck.rows.length === 0) {
-      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
-    }
-
     // Get balance history
     const result = await sql`
       SELECT
         id,
         card_id,
         balance,
+        computed_balance,
+        discrepancy,
         currency,
         notes,
+        ledger_entry_id,
         created_at
       FROM gift_card_balance_history
       WHERE card_id = ${cardId}
@@ -68,6 +62,11 @@ export async function GET(
     });
   } catch (error) {
     console.error('Error fetching balance history:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     return NextResponse.json(
       { error: 'Failed to fetch balance history' },
       { status: 500 }
@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { sql } from '@vercel/postgres';
+import { requireCardAccess } from '@/lib/cards/requireCardAccess';
+import { CardAccessError, LedgerError } from '@/lib/cards/errors';
+import { isCurrencyCode, parseAmount } from '@/lib/cards/ledger';
+import { getBalanceSummary, reportBalance } from '@/lib/cards/ledgerRepository';
 
 /**
  * POST /api/v1/cards/[cardId]/balance
- * Update card balance and create history entry
+ * Report the balance shown on the card or a receipt. The balance itself comes
+ * from the ledger: the first report starts it with an initial load, later ones
+ * are compared with it and flagged when they differ. `reconcile: true` records
+ * an adjustment so the ledger matches the report.
  */
 export async function POST(
   request: NextRequest,
@@ -11,62 +17,47 @@ export async function POST(
 ) {
   try {
     const { cardId } = params;
-
-    if (!cardId) {
-      return NextResponse.json({ error: 'Card ID is required' }, { status: 400 });
-    }
+    const access = await requireCardAccess(cardId, 'update_balance');
 
     const body = await request.json();
-    const { balance, currency = 'USD', notes } = body;
+    const { balance, currency, notes, reconcile } = body;
 
     if (balance === undefined || balance === null) {
       return NextResponse.json({ error: 'Balance is required' }, { status: 400 });
     }
 
-    // Validate balance is a number
-    const balanceNum = parseFloat(balance);
-    if (isNaN(balanceNum)) {
-      return NextResponse.json({ error: 'Balance must be a valid number' }, { status: 400 });
+    const balanceNum = parseAmount(balance);
+    if (balanceNum === null || balanceNum < 0) {
+      return NextResponse.json({ error: 'Balance must be a non-negative amount' }, { status: 400 });
     }
 
-    // Verify card exists
-    const cardCheck = await sql`
-      SELECT id FROM cards WHERE id = ${cardId}
-    `;
-
-    if (cardCheck.rows.length === 0) {
-      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+    if (currency !== undefined && currency !== null && !isCurrencyCode(currency)) {
+      return NextResponse.json({ error: 'Currency must be a 3-letter ISO code, e.g. USD' }, { status: 400 });
     }
 
-    // Update card's current balance
-    await sql`
-      UPDATE cards
-      SET
-        current_balance = ${balanceNum},
-        balance_currency = ${currency},
-        balance_last_updated = NOW(),
-        updated_at = NOW()
-      WHERE id = ${cardId}
-    `;
-
-    // Create history entry
-    const historyResult = await sql`
-      INSERT INTO gift_card_balance_history (card_id, balance, currency, notes)
-      VALUES (${cardId}, ${balanceNum}, ${currency}, ${notes || null})
-      RETURNING id, card_id, balance, currency, notes, created_at
-    `;
-
-    const historyEntry = historyResult.rows[0];
+    const result = await reportBalance(cardId, {
+      balance: balanceNum,
+      currency: currency || null,
+      notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+      reconcile: reconcile === true
+    }, access.userId);
 
     return NextResponse.json({
       cardId,
-      balance: balanceNum,
-      currency,
-      historyEntry,
+      balance: result.balance,
+      currency: result.currency,
+      discrepancy: result.report.discrepancy,
+      historyEntry: result.report,
+      ledgerEntry: result.entry,
       success: true,
     });
   } catch (error) {
     console.error('Error updating card balance:', error);
+
+    if (error instanceof CardAccessError || error instanceof LedgerError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     return NextResponse.json(
       { error: 'Failed to update card balance' },
       { status: 500 }
@@ -76,7 +67,8 @@ export async function POST(
 
 /**
  * GET /api/v1/cards/[cardId]/balance
- * Get current balance for a card
+ * Get the ledger balance for a card, and the latest reported balance if it
+ * didn't match the ledger and still doesn't
  */
 export async function GET(
   request: NextRequest,
@@ -84,36 +76,25 @@ export async function GET(
 ) {
   try {
     const { cardId } = params;
+    await requireCardAccess(cardId, 'read');
 
-    if (!cardId) {
-      return NextResponse.json({ error: 'Card ID is required' }, { status: 400 });
-    }
-
-    const result = await sql`
-      SELECT
-        id,
-        current_balance,
-        balance_currency,
-        balance_last_updated
-      FROM cards
-      WHERE id = ${cardId}
-    `;
-
-    if (result.rows.length === 0) {
-      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
-    }
-
-    const card = result.rows[0];
+    const summary = await getBalanceSummary(cardId);
 
     return NextResponse.json({
       cardId,
-      balance: card.current_balance,
-      currency: card.balance_currency,
-      lastUpdated: card.balance_last_updated,
+      balance: summary.balance,
+      currency: summary.currency,
+      lastUpdated: summary.lastUpdated,
+      discrepancy: summary.discrepancy,
       success: true,
     });
   } catch (error) {
     console.error('Error fetching card balance:', error);
+
+    if (error instanceof CardAccessError || error instanceof LedgerError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     return NextResponse.json(
       { error: 'Failed to fetch card balance' },
       { status: 500 }
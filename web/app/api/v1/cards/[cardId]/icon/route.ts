@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { put, del } from '@vercel/blob';
 import { getCardIcon, updateCardCustomIcon, removeCardCustomIcon } from '@/lib/services/iconService';
+import { requireCardAccess } from '@/lib/cards/requireCardAccess';
+import { CardAccessError } from '@/lib/cards/errors';
 
 /**
  * GET /api/v1/cards/[cardId]/icon
@@ -12,10 +14,7 @@ export async function GET(
 ) {
   try {
     const { cardId } = params;
-
-    if (!cardId) {
-      return NextResponse.json({ error: 'Card ID is required' }, { status: 400 });
-    }
+    await requireCardAccess(cardId, 'read');
 
     const iconUrl = await getCardIcon(cardId);
 
@@ -30,6 +29,11 @@ export async function GET(
     });
   } catch (error) {
     console.error('Error fetching card icon:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     return NextResponse.json(
       { error: 'Failed to fetch card icon' },
       { status: 500 }
@@ -47,10 +51,7 @@ export async function POST(
 ) {
   try {
     const { cardId } = params;
-
-    if (!cardId) {
-      return NextResponse.json({ error: 'Card ID is required' }, { status: 400 });
-    }
+    await requireCardAccess(cardId, 'write');
 
     const formData = await request.formData();
     const file = formData.get('icon') as File;
@@ -85,6 +86,11 @@ export async function POST(
     });
   } catch (error) {
     console.error('Error uploading card icon:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     return NextResponse.json(
       { error: 'Failed to upload card icon' },
       { status: 500 }
@@ -102,10 +108,7 @@ export async function DELETE(
 ) {
   try {
     const { cardId } = params;
-
-    if (!cardId) {
-      return NextResponse.json({ error: 'Card ID is required' }, { status: 400 });
-    }
+    await requireCardAccess(cardId, 'write');
 
     // Remove custom icon from database and get blob ID
     const blobId = await removeCardCustomIcon(cardId);
@@ -131,6 +134,11 @@ export async function DELETE(
     });
   } catch (error) {
     console.error('Error removing card icon:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     return NextResponse.json(
       { error: 'Failed to remove card icon' },
       { status: 500 }
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCardAccess } from '@/lib/cards/requireCardAccess';
+import { CardAccessError, LedgerError } from '@/lib/cards/errors';
+import { parseLedgerEntryInput } from '@/lib/cards/ledger';
+import { addLedgerEntry, listLedgerEntries } from '@/lib/cards/ledgerRepository';
+
+/**
+ * GET /api/v1/cards/[cardId]/ledger
+ * Ledger entries for a card, most recent first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { cardId: string } }
+) {
+  try {
+    const { cardId } = params;
+    await requireCardAccess(cardId, 'read');
+
+    // Get URL params for pagination
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 100);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+
+    const { entries, total } = await listLedgerEntries(cardId, { limit, offset });
+
+    return NextResponse.json({
+      cardId,
+      entries,
+      pagination: {
+        limit,
+        offset,
+        total,
+        hasMore: offset + limit < total,
+      },
+      success: true,
+    });
+  } catch (error) {
+    console.error('Error fetching ledger:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch ledger' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/cards/[cardId]/ledger
+ * Body: { entry_type, amount, currency?, merchant?, location_id?, notes?,
+ * occurred_at?, reported_balance? }. The first entry must be the initial_load;
+ * spends can't take the balance below zero.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { cardId: string } }
+) {
+  try {
+    const { cardId } = params;
+    const access = await requireCardAccess(cardId, 'update_balance');
+
+    const body = await request.json().catch(() => null);
+    const { input, errors } = parseLedgerEntryInput(body);
+    if (!input) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    const result = await addLedgerEntry(cardId, input, access.userId);
+
+    return NextResponse.json({
+      cardId,
+      entry: result.entry,
+      balance: result.balance,
+      currency: result.currency,
+      discrepancy: result.report ? result.report.discrepancy : null,
+      historyEntry: result.report,
+      success: true,
+    }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error adding ledger entry:', error);
+
+    if (error instanceof CardAccessError || error instanceof LedgerError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error.code === '23503') {
+      return NextResponse.json({ error: 'Invalid location_id' }, { status: 400 });
+    }
+
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'This card already has an initial_load' }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to add ledger entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sql } from '@vercel/postgres';
+import { requireCardAccess } from '@/lib/cards/requireCardAccess';
+import { CardAccessError } from '@/lib/cards/errors';
 
 /**
  * POST /api/v1/cards/[cardId]/locations
@@ -11,14 +13,10 @@ export async function POST(
 ) {
   try {
     const { cardId } = params;
-
-    if (!cardId) {
-      return NextResponse.json({ error: 'Card ID is required' }, { status: 400 });
-    }
+    const access = await requireCardAccess(cardId, 'write');
 
     const body = await request.json();
     const {
-      userId,
       locationName,
       address,
       city,
@@ -30,31 +28,10 @@ export async function POST(
       notes,
     } = body;
 
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
-    }
-
     if (!locationName) {
       return NextResponse.json({ error: 'Location name is required' }, { status: 400 });
     }
 
-    // Verify card exists and belongs to user
-    const cardCheck = await sql`
-      SELECT id, user_id FROM cards WHERE id = ${cardId}
-    `;
-
-    if (cardCheck.rows.length === 0) {
-      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
-    }
-
-    const card = cardCheck.rows[0];
-    if (card.user_id !== userId) {
-      return NextResponse.json(
-        { error: 'Unauthorized: Card does not belong to this user' },
-        { status: 403 }
-      );
-    }
-
     // Insert location
     const result = await sql`
       INSERT INTO card_locations (
@@ -72,7 +49,7 @@ export async function POST(
       )
       VALUES (
         ${cardId},
-        ${userId},
+        ${access.userId},
         ${locationName},
         ${address || null},
         ${city || null},
@@ -108,6 +85,11 @@ export async function POST(
     }, { status: 201 });
   } catch (error) {
     console.error('Error adding card location:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     return NextResponse.json(
       { error: 'Failed to add card location' },
       { status: 500 }
@@ -125,35 +107,7 @@ export async function GET(
 ) {
   try {
     const { cardId } = params;
-
-    if (!cardId) {
-      return NextResponse.json({ error: 'Card ID is required' }, { status: 400 });
-    }
-
-    // Get userId from query params for authorization
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
-    }
-
-    // Verify card exists and belongs to user
-    const cardCheck = await sql`
-      SELECT id, user_id FROM cards WHERE id = ${cardId}
-    `;
-
-    if (cardCheck.rows.length === 0) {
-      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
-    }
-
-    const card = cardCheck.rows[0];
-    if (card.user_id !== userId) {
-      return NextResponse.json(
-        { error: 'Unauthorized: Card does not belong to this user' },
-        { status: 403 }
-      );
-    }
+    await requireCardAccess(cardId, 'read');
 
     // Get locations for this card
     const result = await sql`
@@ -182,6 +136,11 @@ export async function GET(
     });
   } catch (error) {
     console.error('Error fetching card locations:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     return NextResponse.json(
       { error: 'Failed to fetch card locations' },
       { status: 500 }
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { put, del } from '@vercel/blob';
 import { sql } from '@vercel/postgres';
+import { requireCardAccess } from '@/lib/cards/requireCardAccess';
+import { CardAccessError } from '@/lib/cards/errors';
+import { getLedgerEntry } from '@/lib/cards/ledgerRepository';
 
 /**
  * POST /api/v1/cards/[cardId]/receipts
- * Upload a receipt image for a card
+ * Upload a receipt image for a card, optionally attached to a ledger entry
+ * (form field `ledgerEntryId`)
  */
 export async function POST(
   request: NextRequest,
@@ -12,16 +16,13 @@ export async function POST(
 ) {
   try {
     const { cardId } = params;
-
-    if (!cardId) {
-      return NextResponse.json({ error: 'Card ID is required' }, { status: 400 });
-    }
+    await requireCardAccess(cardId, 'update_balance');
 
     const formData = await request.formData();
     const file = formData.get('receipt') as File;
     const notes = formData.get('notes') as string | null;
     const purchaseDate = formData.get('purchaseDate') as string | null;
-    const balanceHistoryId = formData.get('balanceHistoryId') as string | null;
+    const ledgerEntryId = formData.get('ledgerEntryId') as string | null;
 
     if (!file) {
       return NextResponse.json({ error: 'Receipt file is required' }, { status: 400 });
@@ -37,13 +38,9 @@ export async function POST(
       return NextResponse.json({ error: 'File size must be less than 10MB' }, { status: 400 });
     }
 
-    // Verify card exists
-    const cardCheck = await sql`
-      SELECT id FROM cards WHERE id = ${cardId}
-    `;
-
-    if (cardCheck.rows.length === 0) {
-      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+    // A receipt can only be attached to this card's own ledger entries
+    if (ledgerEntryId && !(await getLedgerEntry(cardId, ledgerEntryId))) {
+      return NextResponse.json({ error: 'Ledger entry not found for this card' }, { status: 400 });
     }
 
     // Upload to Vercel Blob
@@ -55,10 +52,10 @@ export async function POST(
     // Store receipt in database
     const result = await sql`
       INSERT INTO gift_card_receipts
-        (card_id, balance_history_id, image_url, notes, purchase_date)
+        (card_id, ledger_entry_id, image_url, notes, purchase_date)
       VALUES
-        (${cardId}, ${balanceHistoryId}, ${blob.url}, ${notes}, ${purchaseDate})
-      RETURNING id, card_id, balance_history_id, image_url, notes, purchase_date, created_at
+        (${cardId}, ${ledgerEntryId}, ${blob.url}, ${notes}, ${purchaseDate})
+      RETURNING id, card_id, ledger_entry_id, image_url, notes, purchase_date, created_at
     `;
 
     const receipt = result.rows[0];
@@ -70,6 +67,11 @@ export async function POST(
     });
   } catch (error) {
     console.error('Error uploading receipt:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     return NextResponse.json(
       { error: 'Failed to upload receipt' },
       { status: 500 }
@@ -87,30 +89,22 @@ export async function GET(
 ) {
   try {
     const { cardId } = params;
-
-    if (!cardId) {
-      return NextResponse.json({ error: 'Card ID is required' }, { status: 400 });
-    }
+    await requireCardAccess(cardId, 'read');
 
     // Get URL params for pagination
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '50');
     const offset = parseInt(searchParams.get('offset') || '0');
 
-    // Verify card exists
-    const cardCheck = await sql`
-      SELECT id FROM cards WHERE id = ${cardId}
-    `;
-
-    if (cardCheck.rows.length === 0) {
-      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
-    }
-
     // Get receipts
     const result = await sql`
       SELECT
         r.id,
         r.card_id,
+        r.ledger_entry_id,
+        e.entry_type as ledger_entry_type,
+        e.amount as ledger_entry_amount,
+        e.merchant as ledger_entry_merchant,
         r.balance_history_id,
         r.image_url,
         r.notes,
@@ -118,6 +112,7 @@ export async function GET(
         r.created_at,
         h.balance as associated_balance
       FROM gift_card_receipts r
+      LEFT JOIN gift_card_ledger_entries e ON r.ledger_entry_id = e.id
       LEFT JOIN gift_card_balance_history h ON r.balance_history_id = h.id
       WHERE r.card_id = ${cardId}
       ORDER BY COALESCE(r.purchase_date, r.created_at) DESC
@@ -147,6 +142,11 @@ export async function GET(
     });
   } catch (error) {
     console.error('Error fetching receipts:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     return NextResponse.json(
       { error: 'Failed to fetch receipts' },
       { status: 500 }
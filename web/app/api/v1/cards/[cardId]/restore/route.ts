@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { restoreCard } from '@/lib/cards/cardRepository';
+import { requireCardAccess } from '@/lib/cards/requireCardAccess';
+import { CardAccessError } from '@/lib/cards/errors';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/v1/cards/[cardId]/restore
+ * Bring an archived card back into the wallet
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { cardId: string } }
+) {
+  try {
+    const access = await requireCardAccess(params.cardId, 'manage');
+
+    const card = await restoreCard(params.cardId);
+    if (!card) {
+      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...card, role: access.role });
+  } catch (error) {
+    console.error('POST /cards/[cardId]/restore error:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
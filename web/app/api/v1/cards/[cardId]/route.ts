@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { archiveCard, getCard, updateCard } from '@/lib/cards/cardRepository';
+import { requireCardAccess } from '@/lib/cards/requireCardAccess';
+import { parseCardUpdate } from '@/lib/cards/cards';
+import { CardAccessError, CardUpdateError } from '@/lib/cards/errors';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/v1/cards/[cardId]
+ * A card the user can access, archived or not
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { cardId: string } }
+) {
+  try {
+    const access = await requireCardAccess(params.cardId, 'read');
+
+    const card = await getCard(params.cardId);
+    if (!card) {
+      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...card, role: access.role });
+  } catch (error: any) {
+    console.error('GET /cards/[cardId] error:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/v1/cards/[cardId]
+ * Body: any of { name, card_type, gift_card_brand_id, tags, network_ids,
+ * valid_from, valid_to, one_time, metadata }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { cardId: string } }
+) {
+  try {
+    const access = await requireCardAccess(params.cardId, 'write');
+
+    const body = await request.json().catch(() => null);
+    const { update, errors } = parseCardUpdate(body);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const card = Object.keys(update).length > 0
+      ? await updateCard(params.cardId, update)
+      : await getCard(params.cardId);
+
+    if (!card) {
+      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...card, role: access.role });
+  } catch (error: any) {
+    console.error('PATCH /cards/[cardId] error:', error);
+
+    if (error instanceof CardAccessError || error instanceof CardUpdateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error.code === '23503') {
+      return NextResponse.json(
+        { error: 'Invalid gift card brand ID' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/cards/[cardId]
+ * Archive (soft delete) the card; POST .../restore brings it back
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { cardId: string } }
+) {
+  try {
+    await requireCardAccess(params.cardId, 'manage');
+
+    const card = await archiveCard(params.cardId);
+    if (!card) {
+      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error: any) {
+    console.error('DELETE /cards/[cardId] error:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
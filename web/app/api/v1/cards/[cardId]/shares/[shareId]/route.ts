@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { logAuditEvent } from '@/lib/auditLog';
+import { hasCardPermission } from '@/lib/cards/permissions';
+import { CardAccess, getVerifiedEmails, requireCardAccess } from '@/lib/cards/requireCardAccess';
+import { CardAccessError } from '@/lib/cards/errors';
+import { getCardShare, revokeShare } from '@/lib/cards/shareRepository';
+import { isPendingInvitee } from '@/lib/cards/shares';
+
+export const runtime = 'nodejs';
+
+/**
+ * DELETE /api/v1/cards/[cardId]/shares/[shareId]
+ * Revoke an invite or a member's access. Members may also remove themselves,
+ * and the invitee of an email invite (by verified email) may decline it.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { cardId: string; shareId: string } }
+) {
+  try {
+    let access: CardAccess | null = null;
+    let denied: CardAccessError | null = null;
+
+    try {
+      access = await requireCardAccess(params.cardId, 'read');
+    } catch (error) {
+      if (!(error instanceof CardAccessError) || error.status !== 403) {
+        throw error;
+      }
+      denied = error;
+    }
+
+    const share = await getCardShare(params.cardId, params.shareId);
+
+    // Without access to the card, only a pending invite's invitee gets further
+    if (!access && (!share || !isPendingInvitee(share, await getVerifiedEmails()))) {
+      throw denied;
+    }
+
+    if (!share || share.status === 'revoked') {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+    }
+
+    if (access && !hasCardPermission(access.role, 'manage') && share.userId !== access.userId) {
+      return NextResponse.json(
+        { error: 'Forbidden: manage access to this card required' },
+        { status: 403 }
+      );
+    }
+
+    const userId = access ? access.userId : (await auth()).userId as string;
+    const revoked = await revokeShare(params.cardId, params.shareId, userId);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      userId,
+      action: access ? 'card.share.revoked' : 'card.share.declined',
+      resourceType: 'card_share',
+      resourceId: revoked.id,
+      details: { cardId: params.cardId, role: revoked.role, memberId: revoked.userId, inviteeEmail: revoked.inviteeEmail }
+    });
+
+    return NextResponse.json({ share: revoked });
+  } catch (error) {
+    console.error('DELETE /cards/[cardId]/shares/[shareId] error:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
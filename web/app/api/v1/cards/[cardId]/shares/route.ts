@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logAuditEvent } from '@/lib/auditLog';
+import { SHARE_ROLES, ShareRole } from '@/lib/cards/permissions';
+import { requireCardAccess } from '@/lib/cards/requireCardAccess';
+import { CardAccessError } from '@/lib/cards/errors';
+import { createShareInvite, listCardShares } from '@/lib/cards/shareRepository';
+
+export const runtime = 'nodejs';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * GET /api/v1/cards/[cardId]/shares?include_revoked=true
+ * Who the card is shared with, and pending invites
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { cardId: string } }
+) {
+  try {
+    await requireCardAccess(params.cardId, 'manage');
+
+    const { searchParams } = new URL(request.url);
+    const shares = await listCardShares(params.cardId, searchParams.get('include_revoked') === 'true');
+
+    return NextResponse.json({ shares });
+  } catch (error) {
+    console.error('GET /cards/[cardId]/shares error:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/cards/[cardId]/shares
+ * Body: { role: viewer|balance_editor|co_owner, email? } - invite an email
+ * address, or without one create a link invite. The returned token is shown
+ * only once; the invitee accepts with POST /api/v1/card-shares/accept.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { cardId: string } }
+) {
+  try {
+    const access = await requireCardAccess(params.cardId, 'manage');
+
+    const body = await request.json().catch(() => ({}));
+    const { role, email } = body;
+
+    if (!SHARE_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `role must be one of ${SHARE_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (email !== undefined && email !== null && (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim()))) {
+      return NextResponse.json(
+        { error: 'email must be a valid email address' },
+        { status: 400 }
+      );
+    }
+
+    const { share, token } = await createShareInvite(params.cardId, {
+      role: role as ShareRole,
+      inviteeEmail: email || undefined,
+      invitedBy: access.userId
+    });
+
+    await logAuditEvent({
+      userId: access.userId,
+      action: 'card.share.invited',
+      resourceType: 'card_share',
+      resourceId: share.id,
+      details: { cardId: params.cardId, role: share.role, inviteeEmail: share.inviteeEmail }
+    });
+
+    return NextResponse.json({ share, token }, { status: 201 });
+  } catch (error) {
+    console.error('POST /cards/[cardId]/shares error:', error);
+
+    if (error instanceof CardAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { createCard, listCards } from '@/lib/cards/cardRepository';
+import { CARD_TYPES, CardType, decodeCardCursor, encodeCardCursor, parseCardInput } from '@/lib/cards/cards';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * GET /api/v1/cards?card_type=&network_id=&tags=&include_archived=&archived=&limit=&cursor=
+ * The user's cards, newest first. Pass `next_cursor` back as `cursor` for the
+ * next page. Archived cards are left out unless include_archived=true (or
+ * archived=only for just those).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const cardType = searchParams.get('card_type');
+    const limitParam = searchParams.get('limit');
+    const cursorParam = searchParams.get('cursor');
+    const tags = searchParams.get('tags');
+
+    if (cardType && !CARD_TYPES.includes(cardType as CardType)) {
+      return NextResponse.json(
+        { error: `card_type must be one of ${CARD_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = limitParam ? parseInt(limitParam) : DEFAULT_PAGE_SIZE;
+    if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    const cursor = cursorParam ? decodeCardCursor(cursorParam) : undefined;
+    if (cursor === null) {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
+      );
+    }
+
+    const { cards, nextCursor } = await listCards(userId, {
+      cardType: (cardType as CardType) || undefined,
+      networkId: searchParams.get('network_id') || undefined,
+      tags: tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
+      archived: searchParams.get('archived') === 'only'
+        ? 'only'
+        : searchParams.get('include_archived') === 'true' ? 'include' : 'exclude',
+      limit,
+      cursor
+    });
+
+    return NextResponse.json({
+      cards,
+      count: cards.length,
+      next_cursor: nextCursor ? encodeCardCursor(nextCursor) : null
+    });
+  } catch (error) {
+    console.error('GET /cards error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/cards
+ * Body: CardCreateRequest - { name, barcode_type, payload_encrypted, card_type?,
+ * gift_card_brand_id?, tags?, network_ids?, valid_from?, valid_to?, one_time?, metadata? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const { input, errors } = parseCardInput(body);
+
+    if (!input) {
+      return NextResponse.json(
+        { error: errors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const card = await createCard(userId, input);
+
+    return NextResponse.json(card, { status: 201 });
+  } catch (error: any) {
+    console.error('POST /cards error:', error);
+
+    if (error.code === '23503') {
+      return NextResponse.json(
+        { error: 'Invalid gift card brand ID' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
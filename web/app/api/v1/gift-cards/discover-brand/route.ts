@@ -1,209 +1,155 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
-import { sql, pool } from '@/lib/db';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { auth } from '@clerk/nextjs/server';
+import { createProposal, getGiftCardBrand } from '@/lib/giftCards/brandProposalRepository';
+import { getEnabledBarcodeRules } from '@/lib/giftCards/barcodeRuleRepository';
+import { identifyBarcode } from '@/lib/giftCards/barcodeRules';
+import { GiftCardBrand } from '@/lib/giftCards/brandDiff';
+import { discoverGiftCardBrand } from '@/lib/giftCards/discovery';
+import { AIConfigurationError, AIResponseError } from '@/lib/ai/errors';
 
 interface DiscoverBrandRequest {
-  cardName: string;
+  cardName?: string;
   barcode?: string;
   metadata?: Record<string, string>;
 }
 
-interface GiftCardBrandInfo {
-  brandId: string;
-  name: string;
-  issuer: string;
-  description: string;
-  acceptedNetworks: Array<{
-    networkId: string;
-    networkName: string;
-  }>;
-  category: string;
-}
-
+/**
+ * POST /api/v1/gift-cards/discover-brand
+ * Identify a gift card brand. A barcode matching a prefix rule identifies the
+ * brand without any AI call; otherwise the AI's answer is staged for admin
+ * review. Nothing is written to gift_card_brands until a proposal is approved.
+ */
 export async function POST(req: NextRequest) {
   try {
+    const { userId } = await auth();
     const body: DiscoverBrandRequest = await req.json();
     const { cardName, barcode, metadata } = body;
 
+    let warning: string | undefined;
+
+    if (barcode) {
+      const identification = identifyBarcode(await getEnabledBarcodeRules(), barcode);
+      const brand = identification.rule && await getGiftCardBrand(identification.rule.brandId);
+
+      if (identification.rule && brand) {
+        console.log(`[Gift Card Discovery] Barcode rule ${identification.rule.id} matched ${brand.id}`);
+
+        return NextResponse.json({
+          ok: true,
+          status: 'matched_rule',
+          source: 'barcode_rule',
+          brand: toBrandResponse(brand),
+          rule: {
+            id: identification.rule.id,
+            prefix: identification.rule.prefix,
+            checksum: identification.rule.checksum,
+          },
+          proposal: null,
+        });
+      }
+
+      if (identification.checksumFailed.length > 0) {
+        const failed = identification.checksumFailed[0];
+        const message = `Barcode fails the ${failed.checksum} check for ${failed.brandId}; it may have been misread`;
+
+        // Without a name there is nothing else to identify the card by
+        if (!cardName) {
+          return NextResponse.json({ error: 'invalid_barcode', message }, { status: 400 });
+        }
+        warning = `${message}. Identified by card name instead`;
+      }
+    }
+
     if (!cardName) {
       return NextResponse.json(
-        { error: 'card_name is required' },
+        { error: 'card_name is required unless a barcode rule identifies the card' },
         { status: 400 }
       );
     }
 
     console.log(`[Gift Card Discovery] Analyzing: ${cardName}`);
 
-    // Use Claude to identify the gift card brand and accepting merchants
-    const brandInfo = await discoverGiftCardBrand(cardName, barcode, metadata);
+    // No rule knows this barcode: ask the AI for the brand and accepting merchants.
+    // A barcode that failed its check digit is likely misread, so it's left out.
+    const discovery = await discoverGiftCardBrand(cardName, warning ? undefined : barcode, metadata);
 
-    if (!brandInfo) {
+    if (!discovery) {
       return NextResponse.json(
         { error: 'could_not_identify_brand', message: 'Unable to identify gift card brand' },
         { status: 404 }
       );
     }
 
-    // Check if brand already exists
-    const existingBrand = await sql`
-      SELECT * FROM gift_card_brands WHERE id = ${brandInfo.brandId}
-    `;
-
-    let brand;
-
-    if (existingBrand.rows.length > 0) {
-      // Update existing brand
-      // Build network IDs array for SQL
-      const networkIds = brandInfo.acceptedNetworks.map(n => n.networkId);
-
-      const updated = await pool.query(
-        `UPDATE gift_card_brands
-         SET
-           name = $1,
-           issuer = $2,
-           description = $3,
-           accepted_network_ids = $4,
-           category = $5,
-           auto_discovered = true,
-           updated_at = NOW()
-         WHERE id = $6
-         RETURNING *`,
-        [brandInfo.name, brandInfo.issuer, brandInfo.description, networkIds, brandInfo.category, brandInfo.brandId]
-      );
-      brand = updated.rows[0];
-      console.log(`[Gift Card Discovery] Updated existing brand: ${brandInfo.brandId}`);
-    } else {
-      // Create new brand
-      const networkIds = brandInfo.acceptedNetworks.map(n => n.networkId);
-
-      const inserted = await pool.query(
-        `INSERT INTO gift_card_brands (
-           id, name, issuer, description, accepted_network_ids, category, auto_discovered
-         )
-         VALUES ($1, $2, $3, $4, $5, $6, true)
-         RETURNING *`,
-        [brandInfo.brandId, brandInfo.name, brandInfo.issuer, brandInfo.description, networkIds, brandInfo.category]
-      );
-      brand = inserted.rows[0];
-      console.log(`[Gift Card Discovery] Created new brand: ${brandInfo.brandId}`);
-    }
+    const { info: brandInfo, rawResponse, model } = discovery;
 
-    // Ensure all accepting networks exist in the networks table
-    await ensureNetworksExist(brandInfo.acceptedNetworks);
+    const { proposal, brand } = await createProposal({
+      brandId: brandInfo.brandId,
+      proposed: {
+        name: brandInfo.name,
+        issuer: brandInfo.issuer,
+        description: brandInfo.description,
+        category: brandInfo.category,
+        acceptedNetworks: brandInfo.acceptedNetworks
+      },
+      confidence: brandInfo.confidence,
+      rawResponse,
+      model,
+      cardName,
+      barcode,
+      requestedBy: userId || undefined
+    });
+
+    console.log(proposal
+      ? `[Gift Card Discovery] Staged proposal ${proposal.id} for ${brandInfo.brandId}`
+      : `[Gift Card Discovery] No changes for ${brandInfo.brandId}`);
 
     return NextResponse.json({
       ok: true,
-      brand: {
-        id: brand.id,
-        name: brand.name,
-        issuer: brand.issuer,
-        description: brand.description,
-        acceptedNetworkIds: brand.accepted_network_ids,
-        category: brand.category,
-        autoDiscovered: brand.auto_discovered,
+      status: proposal ? 'pending_review' : 'unchanged',
+      source: 'ai',
+      brand: brand && toBrandResponse(brand),
+      proposal: proposal && {
+        id: proposal.id,
+        brandId: proposal.brandId,
+        diff: proposal.diff,
+        confidence: proposal.confidence,
       },
       acceptedNetworks: brandInfo.acceptedNetworks,
+      warning: warning || null,
     });
   } catch (error: any) {
     console.error('[Gift Card Discovery] Error:', error);
-    return NextResponse.json(
-      { error: 'internal_error', message: error.message },
-      { status: 500 }
-    );
-  }
-}
 
-async function discoverGiftCardBrand(
-  cardName: string,
-  barcode?: string,
-  metadata?: Record<string, string>
-): Promise<GiftCardBrandInfo | null> {
-  const prompt = `You are a gift card expert. Analyze the following gift card and provide detailed information about it.
-
-Gift Card Name: ${cardName}
-${barcode ? `Barcode: ${barcode}` : ''}
-${metadata ? `Additional Info: ${JSON.stringify(metadata)}` : ''}
-
-Please identify:
-1. The exact brand name of this gift card
-2. The company that issues this gift card
-3. ALL merchants/restaurant chains that accept this gift card (be comprehensive - many gift cards work at multiple locations)
-4. A brief description of the gift card program
-5. The category (restaurant, retail, entertainment, multi-purpose, etc.)
-
-For example:
-- A "Red Lobster Gift Card" is issued by Darden Restaurants and works at Red Lobster, Olive Garden, LongHorn Steakhouse, Bahama Breeze, Seasons 52, Eddie V's, and The Capital Grille
-- A "Target GiftCard" only works at Target stores
-- A "Visa Gift Card" works at any merchant that accepts Visa
-
-Respond in JSON format:
-{
-  "brandId": "kebab-case-brand-id",
-  "name": "Official Brand Name",
-  "issuer": "Issuing Company",
-  "description": "Brief description",
-  "acceptedNetworks": [
-    {"networkId": "network-id", "networkName": "Network Display Name"}
-  ],
-  "category": "restaurant|retail|entertainment|multi-purpose"
-}
-
-If you cannot identify this as a real gift card brand, respond with: {"error": "unknown_brand"}`;
-
-  try {
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 2000,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    const responseText = message.content[0].type === 'text'
-      ? message.content[0].text
-      : '';
-
-    // Extract JSON from response
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error('[Gift Card Discovery] No JSON found in response');
-      return null;
+    if (error instanceof AIConfigurationError) {
+      return NextResponse.json(
+        { error: 'ai_unavailable', message: 'Brand discovery is not configured' },
+        { status: 503 }
+      );
     }
 
-    const result = JSON.parse(jsonMatch[0]);
-
-    if (result.error === 'unknown_brand') {
-      return null;
+    if (error instanceof AIResponseError) {
+      return NextResponse.json(
+        { error: 'invalid_ai_response', message: error.message },
+        { status: 502 }
+      );
     }
 
-    return result as GiftCardBrandInfo;
-  } catch (error) {
-    console.error('[Gift Card Discovery] AI error:', error);
-    return null;
+    return NextResponse.json(
+      { error: 'internal_error', message: error.message },
+      { status: 500 }
+    );
   }
 }
 
-async function ensureNetworksExist(networks: Array<{ networkId: string; networkName: string }>) {
-  for (const network of networks) {
-    await sql`
-      INSERT INTO networks (id, name, canonical_names, category, default_radius_meters)
-      VALUES (
-        ${network.networkId},
-        ${network.networkName},
-        ARRAY[${network.networkName}],
-        'restaurant',
-        100
-      )
-      ON CONFLICT (id) DO UPDATE SET
-        name = EXCLUDED.name,
-        updated_at = NOW()
-    `;
-  }
+function toBrandResponse(brand: GiftCardBrand) {
+  return {
+    id: brand.id,
+    name: brand.name,
+    issuer: brand.issuer,
+    description: brand.description,
+    acceptedNetworkIds: brand.acceptedNetworkIds,
+    category: brand.category,
+    autoDiscovered: brand.autoDiscovered,
+    verified: brand.verified,
+  };
 }
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNetworkAliases } from '@/lib/places/networkRepository';
+import { listAcceptanceForNetwork } from '@/lib/places/acceptanceRepository';
+import { AcceptanceEdge, resolveAcceptance } from '@/lib/places/acceptance';
+import { AcceptedCard, NetworkAcceptedCardsResponse } from '@/lib/places/types';
+
+/**
+ * GET /api/v1/networks/[networkId]/accepted-cards?at=2026-01-01&minConfidence=0.5
+ * Gift card brands, loyalty programs and membership networks accepted at a network
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { networkId: string } }
+) {
+  try {
+    const networkId = params.networkId;
+    const { searchParams } = new URL(request.url);
+
+    const at = searchParams.get('at');
+    const minConfidence = searchParams.get('minConfidence');
+
+    const atDate = at ? new Date(`${at}T00:00:00Z`) : new Date();
+    if (at && (!/^\d{4}-\d{2}-\d{2}$/.test(at) || isNaN(atDate.getTime()))) {
+      return NextResponse.json(
+        { error: 'Invalid at format. Use: YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    const minConfidenceNum = minConfidence ? parseFloat(minConfidence) : 0;
+    if (isNaN(minConfidenceNum) || minConfidenceNum < 0 || minConfidenceNum > 1) {
+      return NextResponse.json(
+        { error: 'minConfidence must be between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    const network = (await getNetworkAliases()).find(n => n.id === networkId);
+    if (!network) {
+      return NextResponse.json(
+        { error: 'Network not found' },
+        { status: 404 }
+      );
+    }
+
+    const edges = await listAcceptanceForNetwork(networkId);
+
+    const response: NetworkAcceptedCardsResponse = {
+      network: {
+        id: network.id,
+        name: network.names[0]
+      },
+      at: atDate.toISOString().slice(0, 10),
+      acceptedCards: resolveAcceptance(edges, { at: atDate, minConfidence: minConfidenceNum })
+        .sort((a, b) => b.confidence - a.confidence || (a.subjectName || a.subjectId).localeCompare(b.subjectName || b.subjectId))
+        .map(toAcceptedCard)
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Network accepted cards error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+function toAcceptedCard(edge: AcceptanceEdge): AcceptedCard {
+  return {
+    subjectType: edge.subjectType,
+    subjectId: edge.subjectId,
+    subjectName: edge.subjectName,
+    networkId: edge.networkId,
+    accepted: edge.accepted,
+    scope: edge.scope,
+    source: edge.source,
+    confidence: edge.confidence,
+    effectiveFrom: edge.effectiveFrom,
+    effectiveTo: edge.effectiveTo
+  };
+}
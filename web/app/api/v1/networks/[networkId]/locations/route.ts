@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getNetworkById, getCuratedLocationsNearby } from '@/lib/places/csvImporter';
+import { getNetworkById, getCuratedLocationsNearby, getCuratedLocationsInBBox } from '@/lib/places/networkRepository';
 import { searchPlaces } from '@/lib/places/search';
+import { getCategoryRadii } from '@/lib/places/categoryRadiusRepository';
+import { resolveGeofenceRadius } from '@/lib/places/radius';
 import { NetworkLocationsResponse } from '@/lib/places/types';
 
 export async function GET(
@@ -25,10 +27,10 @@ export async function GET(
     }
 
     // Try to get curated network first
-    const network = getNetworkById(networkId);
+    const network = await getNetworkById(networkId);
 
     if (network) {
-      // Filter locations based on bbox or near parameters
+      // Filter locations based on bbox or near parameters (both answered by PostGIS)
       let locations = network.locations;
 
       if (bbox) {
@@ -40,10 +42,7 @@ export async function GET(
           );
         }
 
-        locations = locations.filter(loc =>
-          loc.lon >= minLon && loc.lon <= maxLon &&
-          loc.lat >= minLat && loc.lat <= maxLat
-        );
+        locations = await getCuratedLocationsInBBox({ minLon, minLat, maxLon, maxLat }, networkId);
       }
 
       if (near) {
@@ -55,8 +54,7 @@ export async function GET(
           );
         }
 
-        locations = getCuratedLocationsNearby(lat, lon, limitNum);
-        locations = locations.filter(loc => loc.network_id === networkId);
+        locations = await getCuratedLocationsNearby(lat, lon, limitNum, networkId);
       }
 
       // Limit results
@@ -68,7 +66,7 @@ export async function GET(
           name: network.name
         },
         locations: locations.map(loc => ({
-          id: `curated:${loc.network_id}:${loc.lat}:${loc.lon}`,
+          id: `curated:${loc.id}`,
           name: loc.network_name,
           lat: loc.lat,
           lon: loc.lon,
@@ -91,6 +89,7 @@ export async function GET(
     const networkResults = searchResults.results.filter(result =>
       result.networkGuessScore && result.networkGuessScore > 0.5
     );
+    const categoryRadii = await getCategoryRadii();
 
     const response: NetworkLocationsResponse = {
       network: {
@@ -102,7 +101,7 @@ export async function GET(
         name: result.name,
         lat: result.lat,
         lon: result.lon,
-        radiusMeters: 100, // Default radius for API results
+        radiusMeters: resolveGeofenceRadius({ categories: result.categories }, categoryRadii).radiusMeters,
         notes: result.address
       }))
     };
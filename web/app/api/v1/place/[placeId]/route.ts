@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { placesCache } from '@/lib/places/cache';
-import { searchNominatim } from '@/lib/places/nominatimConnector';
-import { searchFoursquare } from '@/lib/places/foursquareConnector';
+import { getPlaceDetails } from '@/lib/places/details';
+import { ProviderTimeoutError, RateLimitedError } from '@/lib/places/errors';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { placeId: string } }
 ) {
   try {
-    const placeId = params.placeId;
+    const placeId = params.placeId ? decodeURIComponent(params.placeId) : '';
 
     if (!placeId) {
       return NextResponse.json(
@@ -17,48 +16,8 @@ export async function GET(
       );
     }
 
-    // Check cache first
-    const cacheKey = `place:${placeId}`;
-    const cached = await placesCache.get<any>(cacheKey);
-
-    if (cached) {
-      return NextResponse.json(cached);
-    }
-
-    // Try to fetch from appropriate source based on placeId prefix
-    let placeData = null;
-
-    if (placeId.startsWith('nominatim:')) {
-      // Try to reconstruct the search that would find this place
-      // This is a simplified approach - in production you'd store more metadata
-      const placeIdParts = placeId.split(':');
-      if (placeIdParts.length >= 2) {
-        const osmId = placeIdParts[1];
-        // For now, return a placeholder - you'd need to implement reverse lookup
-        placeData = {
-          id: placeId,
-          name: 'Place details not available',
-          source: 'nominatim',
-          note: 'Detailed place information requires additional API calls'
-        };
-      }
-    } else if (placeId.startsWith('foursquare:')) {
-      // Similar approach for Foursquare
-      placeData = {
-        id: placeId,
-        name: 'Place details not available',
-        source: 'foursquare',
-        note: 'Detailed place information requires additional API calls'
-      };
-    } else if (placeId.startsWith('curated:')) {
-      // For curated places, we might not have detailed info beyond what's in the cache
-      placeData = {
-        id: placeId,
-        name: 'Curated location',
-        source: 'curated',
-        note: 'This is a curated location with basic information'
-      };
-    }
+    // Resolves via the provider named by the id prefix and caches the result
+    const placeData = await getPlaceDetails(placeId);
 
     if (!placeData) {
       return NextResponse.json(
@@ -67,12 +26,24 @@ export async function GET(
       );
     }
 
-    // Cache the result
-    await placesCache.set(cacheKey, placeData, 86400); // 24 hours
-
     return NextResponse.json(placeData);
 
   } catch (error) {
+    if (error instanceof RateLimitedError) {
+      const retryAfterMs = error.retryAfterMs || 1000;
+      return NextResponse.json(
+        { error: error.message, retryAfterMs },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } }
+      );
+    }
+
+    if (error instanceof ProviderTimeoutError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 503 }
+      );
+    }
+
     console.error('Place details error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -1,29 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
 import { searchPlaces } from '@/lib/places/search';
-import { getCuratedLocationsNearby } from '@/lib/places/csvImporter';
-import { RegionRefreshRequest, RegionRefreshResponse } from '@/lib/places/types';
-import { sql, pool } from '@/lib/db';
+import { getCuratedLocationsNearby } from '@/lib/places/networkRepository';
+import { getCategoryRadii } from '@/lib/places/categoryRadiusRepository';
+import { resolveGeofenceRadius } from '@/lib/places/radius';
+import { haversineDistance, radiusToBBox } from '@/lib/places/geoIndex';
+import { matchNetworks } from '@/lib/places/relevance';
+import { loadBrandLocations, loadCardLocations } from '@/lib/regions/sources';
+import { RegionLocation } from '@/lib/regions/types';
+import { Wallet, cardIdsForNetwork, cardIdsForPlaceName, loadWallet } from '@/lib/regions/wallet';
+import { RegionRefreshLocation, RegionRefreshRequest, RegionRefreshResponse } from '@/lib/places/types';
 
-function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const toRad = (d: number) => d * Math.PI / 180;
-  const R = 6371000; // Earth radius in meters
+export const runtime = 'nodejs';
 
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-
-  const a =
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-}
+// brand_locations and card_locations are searched within this distance
+const LOCAL_SEARCH_RADIUS_METERS = 10000;
 
 export async function POST(request: NextRequest) {
   try {
-    const body: RegionRefreshRequest & { userId?: string; giftCardBrandIds?: string[] } = await request.json();
-    const { lat, lon, limit = 20, userId, giftCardBrandIds } = body;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: RegionRefreshRequest = await request.json();
+    const { lat, lon, limit = 20 } = body;
 
     // Validate input
     if (typeof lat !== 'number' || typeof lon !== 'number' ||
@@ -41,33 +43,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get relevant network IDs from user's gift cards
-    let relevantNetworkIds: Set<string> = new Set();
-
-    if (giftCardBrandIds && giftCardBrandIds.length > 0) {
-      const brands = await pool.query(
-        `SELECT accepted_network_ids
-         FROM gift_card_brands
-         WHERE id = ANY($1)`,
-        [giftCardBrandIds]
-      );
-
-      for (const brand of brands.rows) {
-        if (brand.accepted_network_ids) {
-          brand.accepted_network_ids.forEach((networkId: string) => relevantNetworkIds.add(networkId));
-        }
-      }
-
-      console.log(`[Region Refresh] Gift cards accept networks: ${Array.from(relevantNetworkIds).join(', ')}`);
-    }
-
-    // Get curated locations nearby
-    const curatedLocations = getCuratedLocationsNearby(lat, lon, limit * 2); // Get more to allow for deduplication
-
-    // Filter curated locations by relevant networks if gift cards provided
-    const filteredCuratedLocations = relevantNetworkIds.size > 0
-      ? curatedLocations.filter(loc => relevantNetworkIds.has(loc.network_id))
-      : curatedLocations;
+    // Get the user's wallet and curated, brand and card locations nearby (more than limit to allow for deduplication)
+    const bbox = radiusToBBox(lat, lon, LOCAL_SEARCH_RADIUS_METERS);
+    const [wallet, curatedLocations, brandLocations, cardLocations] = await Promise.all([
+      loadWallet(userId),
+      getCuratedLocationsNearby(lat, lon, limit * 2),
+      loadBrandLocations(bbox, { near: { lat, lon }, limit: limit * 2 }),
+      loadCardLocations(bbox, userId, { near: { lat, lon }, limit: limit * 2 })
+    ]);
+
+    // Only locations the user's cards are accepted at (per the acceptance graph), once they have any
+    const curatedWithCards = curatedLocations.map(loc => ({
+      loc,
+      cardIds: cardIdsForNetwork(wallet, loc.network_id, { id: loc.id, lat: loc.lat, lon: loc.lon })
+    }));
+    const filteredCuratedLocations = wallet.grants.size > 0
+      ? curatedWithCards.filter(({ cardIds }) => cardIds.length > 0)
+      : curatedWithCards;
 
     // Also search for places using external APIs (without query to get general POIs)
     const apiResults = await searchPlaces('', {
@@ -77,47 +69,56 @@ export async function POST(request: NextRequest) {
       source: 'nominatim' // Prefer Nominatim for general POI search
     });
 
+    // API places have no override or network default; resolve from their categories
+    const categoryRadii = await getCategoryRadii();
+
     // Combine and deduplicate
-    const allLocations = [
-      ...filteredCuratedLocations.map(loc => ({
-        id: `curated:${loc.network_id}:${loc.lat}:${loc.lon}`,
+    const allLocations: RegionRefreshLocation[] = [
+      ...filteredCuratedLocations.map(({ loc, cardIds }) => ({
+        id: `curated:${loc.id}`,
         networkId: loc.network_id,
         name: loc.network_name,
         lat: loc.lat,
         lon: loc.lon,
         radiusMeters: loc.radius_meters,
-        source: 'curated' as const,
+        source: 'curated',
+        verified: true,
         notes: loc.notes,
-        acceptedByGiftCards: giftCardBrandIds || [] // Track which gift cards work here
+        cardIds
       })),
+      ...brandLocations.map(loc => ({ ...toRefreshLocation(loc), cardIds: cardIdsForPlaceName(wallet, loc) })),
+      ...cardLocations.map(toRefreshLocation),
       ...apiResults.results.map(place => ({
         id: place.id,
-        networkId: undefined, // API results may not have network info
+        networkId: matchedNetworkId(wallet, place.name),
         name: place.name,
         lat: place.lat,
         lon: place.lon,
-        radiusMeters: estimateRadius(place),
+        radiusMeters: resolveGeofenceRadius({ categories: place.categories }, categoryRadii).radiusMeters,
         source: place.dataSource,
+        verified: false,
         notes: place.address,
-        acceptedByGiftCards: []
+        cardIds: cardIdsForPlaceName(wallet, place)
       }))
     ];
 
     // Deduplicate by location (within ~50m)
     const deduplicated = deduplicateByLocation(allLocations);
 
-    // Sort by distance and limit
+    // Verified data first, then by distance, and limit
     const sorted = deduplicated
       .map(loc => ({
         ...loc,
+        acceptedByGiftCards: giftCardBrandIds(wallet, loc.cardIds),
         distance: haversineDistance(lat, lon, loc.lat, loc.lon)
       }))
-      .sort((a, b) => a.distance - b.distance)
+      .sort((a, b) => sourceRank(a) - sourceRank(b) || a.distance - b.distance)
       .slice(0, limit);
 
     const response: RegionRefreshResponse = {
       ok: true,
-      locations: sorted
+      locations: sorted,
+      providers: apiResults.providers // Which external backends answered, timed out or were throttled
     };
 
     return NextResponse.json(response);
@@ -130,9 +131,47 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function deduplicateByLocation(locations: any[]): any[] {
-  const result: any[] = [];
-  const seen = new Set<string>();
+function toRefreshLocation(loc: RegionLocation): RegionRefreshLocation {
+  return {
+    id: loc.id,
+    brandId: loc.brandId,
+    name: loc.name,
+    lat: loc.lat,
+    lon: loc.lon,
+    radiusMeters: loc.radiusMeters,
+    source: loc.kind,
+    verified: loc.verified,
+    notes: loc.address,
+    cardIds: loc.cardIds,
+    templateIds: loc.templateIds
+  };
+}
+
+// The pre-wallet response listed the gift card brands accepted at each location
+function giftCardBrandIds(wallet: Wallet, cardIds: string[] = []): string[] {
+  const brandIds = wallet.cards
+    .filter(card => card.giftCardBrandId && cardIds.includes(card.id))
+    .map(card => card.giftCardBrandId as string);
+
+  return Array.from(new Set(brandIds));
+}
+
+// API results carry no network; take the first of the user's networks the name matches
+function matchedNetworkId(wallet: Wallet, name: string): string | undefined {
+  return matchNetworks(name, wallet.networks)[0]?.id;
+}
+
+// 0: curated, verified brand locations and the user's own card locations;
+// 1: unverified brand locations; 2: place provider guesses
+function sourceRank(location: RegionRefreshLocation): number {
+  if (location.source === 'curated' || location.source === 'card' || (location.source === 'brand' && location.verified)) {
+    return 0;
+  }
+  return location.source === 'brand' ? 1 : 2;
+}
+
+function deduplicateByLocation(locations: RegionRefreshLocation[]): RegionRefreshLocation[] {
+  const byKey = new Map<string, RegionRefreshLocation>();
 
   for (const location of locations) {
     // Round coordinates to ~50m precision for deduplication
@@ -140,46 +179,27 @@ function deduplicateByLocation(locations: any[]): any[] {
     const lonRounded = Math.round(location.lon * 1000) / 1000;
     const key = `${latRounded},${lonRounded}`;
 
-    if (!seen.has(key)) {
-      seen.add(key);
-      result.push(location);
-    } else {
-      // If duplicate location, prefer curated data
-      const existingIndex = result.findIndex(r => {
-        const rLatRounded = Math.round(r.lat * 1000) / 1000;
-        const rLonRounded = Math.round(r.lon * 1000) / 1000;
-        return `${rLatRounded},${rLonRounded}` === key;
-      });
-
-      if (existingIndex >= 0 && result[existingIndex].source !== 'curated' && location.source === 'curated') {
-        result[existingIndex] = location; // Replace with curated
-      }
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, location);
+      continue;
     }
-  }
 
-  return result;
-}
-
-function estimateRadius(place: any): number {
-  // Estimate radius based on place type
-  const categories = place.categories || [];
-
-  if (categories.some((cat: string) => cat.toLowerCase().includes('supermarket') || cat.toLowerCase().includes('grocery'))) {
-    return 80;
-  }
-
-  if (categories.some((cat: string) => cat.toLowerCase().includes('library'))) {
-    return 50;
+    // Keep the better-ranked entry, with the cards and templates of both
+    const [kept, merged] = sourceRank(location) < sourceRank(existing) ? [location, existing] : [existing, location];
+    byKey.set(key, {
+      ...kept,
+      cardIds: union(kept.cardIds, merged.cardIds),
+      templateIds: union(kept.templateIds, merged.templateIds)
+    });
   }
 
-  if (categories.some((cat: string) => cat.toLowerCase().includes('theme') || cat.toLowerCase().includes('park'))) {
-    return 2000; // Large area
-  }
+  return Array.from(byKey.values());
+}
 
-  if (categories.some((cat: string) => cat.toLowerCase().includes('mall') || cat.toLowerCase().includes('shopping'))) {
-    return 150;
+function union(a?: string[], b?: string[]): string[] | undefined {
+  if (!a && !b) {
+    return undefined;
   }
-
-  // Default radius
-  return 100;
+  return Array.from(new Set([...(a || []), ...(b || [])]));
 }
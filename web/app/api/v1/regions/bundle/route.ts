@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { isValidGeohash } from '@/lib/places/geoIndex';
+import {
+  MAX_BUNDLE_PRECISION,
+  MIN_BUNDLE_PRECISION,
+  buildRegionBundle,
+  bundleETag,
+  contentHashFromETag,
+  diffRegionBundle
+} from '@/lib/regions/bundle';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/v1/regions/bundle?geohash=9q8yy
+ * Offline bundle of every geofenceable location in a geohash cell.
+ *
+ * - If-None-Match: <ETag>  -> 304 when the cell is unchanged
+ * - ?since=<contentHash>   -> delta (added/updated/removed) from that bundle when the
+ *                             server still has it, otherwise the full bundle
+ *
+ * Signed-in users also get their own card locations in the cell.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const geohash = (searchParams.get('geohash') || '').toLowerCase();
+    const since = searchParams.get('since');
+
+    if (!geohash || !isValidGeohash(geohash) ||
+        geohash.length < MIN_BUNDLE_PRECISION || geohash.length > MAX_BUNDLE_PRECISION) {
+      return NextResponse.json(
+        { error: `geohash must be a valid geohash of ${MIN_BUNDLE_PRECISION}-${MAX_BUNDLE_PRECISION} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { userId } = await auth();
+    const bundle = await buildRegionBundle(geohash, userId);
+    const etag = bundleETag(bundle.contentHash);
+    const headers = {
+      'ETag': etag,
+      // Card locations make bundles per-user
+      'Cache-Control': 'private, no-cache',
+      'Vary': 'Authorization, Cookie'
+    };
+
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch && ifNoneMatch.split(',').some(tag => contentHashFromETag(tag) === bundle.contentHash)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    if (since && since !== bundle.contentHash) {
+      const delta = await diffRegionBundle(bundle, since, userId);
+      if (delta) {
+        return NextResponse.json({ type: 'delta', ...delta }, { headers });
+      }
+    }
+
+    return NextResponse.json({ type: 'full', ...bundle }, { headers });
+  } catch (error) {
+    console.error('Region bundle error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { radiusToBBox } from '@/lib/places/geoIndex';
+import { loadRegionLocations } from '@/lib/regions/bundle';
+import {
+  DEFAULT_SEARCH_RADIUS_METERS,
+  IOS_REGION_LIMIT,
+  MAX_SEARCH_RADIUS_METERS,
+  planGeofences
+} from '@/lib/regions/planner';
+import { RegionLocation } from '@/lib/regions/types';
+import { cardIdsForRegionLocation, loadWallet } from '@/lib/regions/wallet';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/v1/regions/plan
+ * Body: { lat, lon, reservedRegions?, searchRadiusMeters? }
+ *
+ * The regions a device should monitor right now, within the iOS 20-region limit
+ * minus `reservedRegions` (slots the watch app or anything else already uses).
+ * Overlapping stores come back merged, the user's most used places rank first,
+ * and `refreshBoundary` is the region whose exit should trigger the next plan.
+ * Once a signed-in user has cards, only places one of them works at are planned.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      lat,
+      lon,
+      reservedRegions = 0,
+      searchRadiusMeters = DEFAULT_SEARCH_RADIUS_METERS
+    } = body;
+
+    if (typeof lat !== 'number' || typeof lon !== 'number' ||
+        lat < -90 || lat > 90 || lon < -180 || lon > 180) {
+      return NextResponse.json(
+        { error: 'Invalid latitude or longitude' },
+        { status: 400 }
+      );
+    }
+
+    // One region plus the refresh boundary is the smallest useful plan
+    if (!Number.isInteger(reservedRegions) || reservedRegions < 0 || reservedRegions > IOS_REGION_LIMIT - 2) {
+      return NextResponse.json(
+        { error: `reservedRegions must be an integer between 0 and ${IOS_REGION_LIMIT - 2}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof searchRadiusMeters !== 'number' || searchRadiusMeters <= 0 || searchRadiusMeters > MAX_SEARCH_RADIUS_METERS) {
+      return NextResponse.json(
+        { error: `searchRadiusMeters must be between 1 and ${MAX_SEARCH_RADIUS_METERS}` },
+        { status: 400 }
+      );
+    }
+
+    const { userId } = await auth();
+    const [locations, wallet] = await Promise.all([
+      loadRegionLocations(radiusToBBox(lat, lon, searchRadiusMeters), userId),
+      userId ? loadWallet(userId) : Promise.resolve(null)
+    ]);
+
+    // Same rule as region-refresh: filter by the wallet once the user has cards accepted somewhere
+    const cardIdsAt = wallet && wallet.grants.size > 0
+      ? (location: RegionLocation) => cardIdsForRegionLocation(wallet, location)
+      : undefined;
+
+    const plan = planGeofences({ lat, lon }, locations, { reservedRegions, searchRadiusMeters, cardIdsAt });
+
+    return NextResponse.json(plan, {
+      headers: { 'Cache-Control': 'private, no-store' }
+    });
+  } catch (error) {
+    console.error('Region plan error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { searchPlaces } from '@/lib/places/search';
+import { isRateLimitedSearch, searchPlaces } from '@/lib/places/search';
+import { findUnknownProviders } from '@/lib/places/providers';
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,6 +19,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const unknownSources = findUnknownProviders(source || undefined);
+    if (unknownSources.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown source: ${unknownSources.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     const options: any = {
       limit: limit ? parseInt(limit) : 20,
       source: source || 'both'
@@ -40,6 +49,15 @@ export async function GET(request: NextRequest) {
 
     const results = await searchPlaces(query.trim(), options);
 
+    // Nothing came back and a provider was throttled: tell the client when to retry
+    if (isRateLimitedSearch(results)) {
+      const retryAfterMs = Math.min(...results.rateLimited.map(id => results.providers[id].retryAfterMs || 1000));
+      return NextResponse.json(
+        { ...results, error: 'Rate limit exceeded', retryAfterMs },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } }
+      );
+    }
+
     return NextResponse.json(results);
   } catch (error) {
     console.error('Search API error:', error);
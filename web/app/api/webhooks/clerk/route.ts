@@ -3,6 +3,7 @@ import { headers } from 'next/headers';
 import { WebhookEvent } from '@clerk/nextjs/server';
 import { sql } from '@vercel/postgres';
 import { NextResponse } from 'next/server';
+import { logAuditEvent } from '@/lib/auditLog';
 
 /**
  * Clerk Webhook Handler
@@ -184,39 +185,3 @@ async function handleUserDeleted(data: any) {
 
 // Note: Subscription handling would be implemented if using a separate
 // billing provider (Stripe, etc.) with webhooks sent to Clerk
-
-// ==================== Audit Logging ====================
-
-interface AuditEvent {
-  userId?: string;
-  action: string;
-  resourceType?: string;
-  resourceId?: string;
-  details?: any;
-  ipAddress?: string;
-  userAgent?: string;
-}
-
-async function logAuditEvent(event: AuditEvent) {
-  try {
-    await sql`
-      INSERT INTO audit_log (
-        user_id,
-        action,
-        resource_type,
-        resource_id,
-        details
-      )
-      VALUES (
-        ${event.userId || null},
-        ${event.action},
-        ${event.resourceType || null},
-        ${event.resourceId || null},
-        ${JSON.stringify(event.details || {})}
-      )
-    `;
-  } catch (error) {
-    console.error('Failed to log audit event:', error);
-    // Don't fail the webhook if audit logging fails
-  }
-}
@@ -0,0 +1,43 @@
+-- Migration 017: Curated networks and locations live in Postgres
+-- Replaces data/curated-networks.json; load it once with scripts/migrate-curated-networks.ts
+
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+-- Base tables (already present on databases created from the unified schema)
+CREATE TABLE IF NOT EXISTS networks (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    canonical_names TEXT[],
+    category TEXT NOT NULL,
+    is_large_area BOOLEAN DEFAULT false,
+    default_radius_meters INTEGER DEFAULT 100,
+    tags TEXT[],
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS locations (
+    id TEXT PRIMARY KEY,
+    network_id TEXT NOT NULL REFERENCES networks(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    address TEXT,
+    location GEOGRAPHY(POINT, 4326) NOT NULL,
+    radius_meters INTEGER DEFAULT 100,
+    phone TEXT,
+    hours JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Curated import fields
+ALTER TABLE locations
+ADD COLUMN IF NOT EXISTS notes TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_locations_network_id ON locations(network_id);
+CREATE INDEX IF NOT EXISTS idx_locations_geography ON locations USING GIST(location);
+CREATE INDEX IF NOT EXISTS idx_networks_canonical_names ON networks USING GIN(canonical_names);
+
+-- Comments for documentation
+COMMENT ON COLUMN networks.canonical_names IS 'Aliases used for fuzzy search matching (e.g., {"Costco", "Costco Whse"})';
+COMMENT ON COLUMN locations.id IS 'Location ID; curated imports use "<network_id>:<lat>:<lon>"';
+COMMENT ON COLUMN locations.notes IS 'Label from the curated import (store name or address)';
@@ -0,0 +1,18 @@
+-- Migration 018: Stable identity for curated locations
+-- Imports carrying a store_id/ref column key locations by it, so moved stores keep
+-- their id (and phones keep their geofence identifiers). Locations missing from a
+-- re-import are tombstoned instead of deleted.
+
+ALTER TABLE locations
+ADD COLUMN IF NOT EXISTS external_key TEXT,
+ADD COLUMN IF NOT EXISTS removed_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_locations_network_external_key
+  ON locations(network_id, external_key)
+  WHERE external_key IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_locations_removed_at ON locations(removed_at);
+
+-- Comments for documentation
+COMMENT ON COLUMN locations.external_key IS 'Store number / OSM ref from the import source; locations.id is "<network_id>:ref:<external_key>" when set';
+COMMENT ON COLUMN locations.removed_at IS 'Tombstone: set when a re-import no longer contains the location';
@@ -0,0 +1,52 @@
+-- Migration 019: Geofence radius resolution
+-- A location's radius comes from, in order: its own override, its network's or
+-- brand's default, the default for its category, then a name/category heuristic
+-- (lib/places/radius.ts).
+
+-- Rows without a radius inherit the network and category defaults. The 100 m
+-- values came from the old column defaults, not from anyone choosing them, so
+-- they are cleared; otherwise they would override the category defaults (e.g.
+-- warehouse_club 250 m). To set or clear them later, re-import the network
+-- (POST /api/v1/admin/networks/import): a row without a radius clears its
+-- location's, and defaultRadiusMeters: null clears the network's.
+ALTER TABLE locations ALTER COLUMN radius_meters DROP DEFAULT;
+UPDATE locations SET radius_meters = NULL WHERE radius_meters = 100;
+
+ALTER TABLE networks ALTER COLUMN default_radius_meters DROP DEFAULT;
+UPDATE networks SET default_radius_meters = NULL WHERE default_radius_meters = 100;
+
+ALTER TABLE brands
+ADD COLUMN IF NOT EXISTS default_radius_meters INTEGER CHECK (default_radius_meters > 0);
+
+ALTER TABLE brand_locations
+ADD COLUMN IF NOT EXISTS radius_meters INTEGER CHECK (radius_meters > 0);
+
+CREATE TABLE IF NOT EXISTS geofence_category_defaults (
+    category TEXT PRIMARY KEY,
+    radius_meters INTEGER NOT NULL CHECK (radius_meters BETWEEN 25 AND 5000),
+    updated_by TEXT,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO geofence_category_defaults (category, radius_meters) VALUES
+    ('warehouse_club', 250),
+    ('shopping_mall', 300),
+    ('theme_park', 1500),
+    ('department_store', 150),
+    ('hardware_store', 150),
+    ('grocery', 120),
+    ('entertainment', 200),
+    ('retail', 100),
+    ('pharmacy', 75),
+    ('library', 75),
+    ('gas_station', 60),
+    ('restaurant', 60),
+    ('coffee_shop', 50)
+ON CONFLICT (category) DO NOTHING;
+
+-- Comments for documentation
+COMMENT ON COLUMN locations.radius_meters IS 'Per-location geofence radius override; NULL inherits the network/category default';
+COMMENT ON COLUMN networks.default_radius_meters IS 'Geofence radius for the network''s locations; NULL falls back to the category default';
+COMMENT ON COLUMN brands.default_radius_meters IS 'Geofence radius for the brand''s locations; NULL falls back to the category default';
+COMMENT ON COLUMN brand_locations.radius_meters IS 'Per-location geofence radius override; NULL inherits the brand/category default';
+COMMENT ON TABLE geofence_category_defaults IS 'Default geofence radius per category (warehouse_club, coffee_shop, ...), editable from the admin API';
@@ -0,0 +1,63 @@
+-- Migration 020: Network acceptance graph
+-- Which networks accept a card: a gift card brand, a loyalty program (brands) or a
+-- membership network (e.g. a library system whose cards work at reciprocal
+-- libraries). Each edge records who asserted it, how sure we are, when it holds
+-- and, for partial acceptance, which locations or area it is limited to.
+-- Edges are resolved in lib/places/acceptance.ts.
+
+CREATE TABLE IF NOT EXISTS network_acceptance (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    subject_type TEXT NOT NULL CHECK (subject_type IN ('gift_card_brand', 'brand', 'network')),
+    subject_id TEXT NOT NULL,
+    network_id TEXT NOT NULL REFERENCES networks(id) ON DELETE CASCADE,
+    accepted BOOLEAN NOT NULL DEFAULT true,
+
+    -- Partial acceptance; both NULL means every location of the network
+    location_ids TEXT[],
+    region_min_lon DOUBLE PRECISION,
+    region_min_lat DOUBLE PRECISION,
+    region_max_lon DOUBLE PRECISION,
+    region_max_lat DOUBLE PRECISION,
+
+    -- Provenance
+    source TEXT NOT NULL CHECK (source IN ('admin', 'user_report', 'ai')),
+    confidence REAL NOT NULL DEFAULT 0.5 CHECK (confidence BETWEEN 0 AND 1),
+    reported_by TEXT,
+    notes TEXT,
+
+    -- Inclusive; NULL means open-ended
+    effective_from DATE,
+    effective_to DATE,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    UNIQUE (subject_type, subject_id, network_id, source),
+    CHECK (effective_to IS NULL OR effective_from IS NULL OR effective_to >= effective_from),
+    CHECK (
+      (region_min_lon IS NULL AND region_min_lat IS NULL AND region_max_lon IS NULL AND region_max_lat IS NULL) OR
+      (region_min_lon IS NOT NULL AND region_min_lat IS NOT NULL AND region_max_lon IS NOT NULL AND region_max_lat IS NOT NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_network_acceptance_subject ON network_acceptance(subject_type, subject_id);
+CREATE INDEX IF NOT EXISTS idx_network_acceptance_network_id ON network_acceptance(network_id);
+
+-- Backfill from gift_card_brands.accepted_network_ids (AI-discovered unless entered by hand)
+INSERT INTO network_acceptance (subject_type, subject_id, network_id, source, confidence)
+SELECT 'gift_card_brand', g.id, n.id,
+       CASE WHEN g.auto_discovered THEN 'ai' ELSE 'admin' END,
+       CASE WHEN g.auto_discovered THEN 0.6 ELSE 1.0 END
+FROM gift_card_brands g
+CROSS JOIN LATERAL unnest(g.accepted_network_ids) AS accepted(network_id)
+JOIN networks n ON n.id = accepted.network_id
+ON CONFLICT (subject_type, subject_id, network_id, source) DO NOTHING;
+
+-- Comments for documentation
+COMMENT ON TABLE network_acceptance IS 'Which networks accept a gift card brand, loyalty program or membership network';
+COMMENT ON COLUMN network_acceptance.subject_id IS 'gift_card_brands.id, brands.id or networks.id, depending on subject_type';
+COMMENT ON COLUMN network_acceptance.accepted IS 'false records that the card is NOT accepted (e.g. a user report or admin correction)';
+COMMENT ON COLUMN network_acceptance.location_ids IS 'Only these locations (locations.id) of the network accept the card';
+COMMENT ON COLUMN network_acceptance.region_min_lon IS 'Only locations inside this bounding box accept the card';
+COMMENT ON COLUMN network_acceptance.confidence IS '0-1; AI guesses start low, admin edges are 1';
+COMMENT ON COLUMN gift_card_brands.accepted_network_ids IS 'Legacy; network_acceptance is authoritative';
@@ -0,0 +1,52 @@
+-- Migration 021: Review queue for AI-discovered gift card brands
+-- discover-brand stages the model's answer as a proposal instead of writing
+-- gift_card_brands; an admin approves (optionally edited) or rejects it.
+
+ALTER TABLE gift_card_brands
+ADD COLUMN IF NOT EXISTS verified BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS verified_by TEXT,
+ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS gift_card_brand_proposals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    brand_id TEXT NOT NULL,                       -- gift_card_brands.id it creates or changes
+    status TEXT NOT NULL DEFAULT 'pending'
+      CHECK (status IN ('pending', 'approved', 'rejected', 'superseded')),
+
+    -- What the model said
+    proposed JSONB NOT NULL,                      -- {name, issuer, description, category, acceptedNetworks}
+    diff JSONB NOT NULL,                          -- Changes against the brand when proposed
+    confidence REAL CHECK (confidence BETWEEN 0 AND 1),
+    raw_response TEXT,
+    model TEXT,
+
+    -- What was asked
+    card_name TEXT NOT NULL,
+    barcode TEXT,
+    requested_by TEXT,
+
+    -- The brand's updated_at when proposed; approval refuses if it has changed since
+    base_updated_at TIMESTAMPTZ,
+
+    -- Review
+    reviewed_by TEXT,
+    reviewed_at TIMESTAMPTZ,
+    review_notes TEXT,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_card_brand_proposals_status ON gift_card_brand_proposals(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gift_card_brand_proposals_brand_id ON gift_card_brand_proposals(brand_id);
+
+-- A newer discovery supersedes the pending one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gift_card_brand_proposals_one_pending
+    ON gift_card_brand_proposals(brand_id) WHERE status = 'pending';
+
+-- Brands entered by hand count as verified
+UPDATE gift_card_brands SET verified = true WHERE auto_discovered = false;
+
+-- Comments for documentation
+COMMENT ON TABLE gift_card_brand_proposals IS 'AI-discovered gift card brand data awaiting admin review';
+COMMENT ON COLUMN gift_card_brand_proposals.diff IS 'Field and network changes against the current brand at proposal time';
+COMMENT ON COLUMN gift_card_brands.verified IS 'Admin-reviewed; AI discovery never changes a brand without review';
@@ -0,0 +1,28 @@
+-- Migration 022: Gift card barcode rules
+-- Many gift card programs issue numbers with a recognizable prefix, length and
+-- check digit. discover-brand matches a scanned barcode against these rules
+-- (lib/giftCards/barcodeRules.ts) before asking the AI, which is only a fallback.
+
+CREATE TABLE IF NOT EXISTS gift_card_barcode_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    brand_id TEXT NOT NULL REFERENCES gift_card_brands(id) ON DELETE CASCADE,
+    prefix TEXT NOT NULL CHECK (prefix ~ '^[0-9A-Z]+$'),
+    lengths INTEGER[] NOT NULL DEFAULT '{}',
+    checksum TEXT NOT NULL DEFAULT 'none' CHECK (checksum IN ('none', 'luhn', 'gtin')),
+    priority INTEGER NOT NULL DEFAULT 0,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    notes TEXT,
+    updated_by TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (brand_id, prefix, lengths)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_card_barcode_rules_prefix ON gift_card_barcode_rules(prefix) WHERE enabled;
+
+-- Comments for documentation
+COMMENT ON TABLE gift_card_barcode_rules IS 'Barcode/card number patterns that identify a gift card brand without an AI call, editable from the admin API';
+COMMENT ON COLUMN gift_card_barcode_rules.prefix IS 'Leading characters of the normalized barcode (digits and upper-case letters, separators removed)';
+COMMENT ON COLUMN gift_card_barcode_rules.lengths IS 'Allowed barcode lengths; empty allows any length';
+COMMENT ON COLUMN gift_card_barcode_rules.checksum IS 'Check digit scheme: none, luhn (card numbers) or gtin (EAN/UPC mod 10)';
+COMMENT ON COLUMN gift_card_barcode_rules.priority IS 'Breaks ties between rules with equally long prefixes; higher wins';
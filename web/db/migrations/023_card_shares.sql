@@ -0,0 +1,33 @@
+-- Migration 023: Card sharing
+-- An owner shares a card by inviting an email address or by handing out a link.
+-- Accepting the invite gives the user a role on the card (lib/cards/permissions.ts)
+-- and puts it in their wallet and region refresh.
+
+CREATE TABLE IF NOT EXISTS card_shares (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    card_id TEXT NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'balance_editor', 'co_owner')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+    invitee_email TEXT,
+    token_hash TEXT NOT NULL UNIQUE,
+    invited_by TEXT NOT NULL,
+    user_id TEXT,
+    expires_at TIMESTAMPTZ NOT NULL,
+    accepted_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    revoked_by TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK ((status = 'accepted') = (user_id IS NOT NULL AND accepted_at IS NOT NULL) OR status = 'revoked')
+);
+
+-- One live share per card and user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_card_shares_card_user ON card_shares(card_id, user_id) WHERE status = 'accepted';
+CREATE INDEX IF NOT EXISTS idx_card_shares_user ON card_shares(user_id) WHERE status = 'accepted';
+CREATE INDEX IF NOT EXISTS idx_card_shares_invitee_email ON card_shares(LOWER(invitee_email)) WHERE status = 'pending';
+
+-- Comments for documentation
+COMMENT ON TABLE card_shares IS 'Invitations to and grants of access to another user''s card';
+COMMENT ON COLUMN card_shares.role IS 'viewer (read only), balance_editor (can update balance and receipts) or co_owner (everything the owner can do)';
+COMMENT ON COLUMN card_shares.invitee_email IS 'Only a user with this email may accept; NULL for link invites anyone with the link can accept';
+COMMENT ON COLUMN card_shares.token_hash IS 'SHA-256 of the invite token; the token itself is only returned when the invite is created';
+COMMENT ON COLUMN card_shares.user_id IS 'The user who accepted the invite';
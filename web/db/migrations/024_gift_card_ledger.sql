@@ -0,0 +1,58 @@
+-- Migration 024: Gift card ledger
+-- A card's balance is the sum of its ledger entries (initial load, spends,
+-- reloads, refunds and adjustments) instead of the last number a user typed in.
+-- cards.current_balance is kept as a cache of that sum by lib/cards/ledgerRepository.ts.
+-- gift_card_balance_history becomes the log of balances users report, each
+-- compared with the ledger so mismatches can be flagged.
+
+CREATE TABLE IF NOT EXISTS gift_card_ledger_entries (
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    card_id TEXT NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+    entry_type TEXT NOT NULL CHECK (entry_type IN ('initial_load', 'spend', 'reload', 'refund', 'adjustment')),
+    amount NUMERIC(10,2) NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'USD',
+    merchant TEXT,
+    location_id TEXT REFERENCES locations(id) ON DELETE SET NULL,
+    notes TEXT,
+    occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (
+        (entry_type = 'initial_load' AND amount >= 0)
+        OR (entry_type IN ('spend', 'reload', 'refund') AND amount > 0)
+        OR (entry_type = 'adjustment' AND amount <> 0)
+    )
+);
+
+-- One starting balance per card
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_entries_initial_load ON gift_card_ledger_entries(card_id) WHERE entry_type = 'initial_load';
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_card_occurred ON gift_card_ledger_entries(card_id, occurred_at DESC);
+
+-- Reported balances, compared with the ledger when they were reported
+ALTER TABLE gift_card_balance_history
+ADD COLUMN IF NOT EXISTS computed_balance NUMERIC(10,2),
+ADD COLUMN IF NOT EXISTS discrepancy NUMERIC(10,2),
+ADD COLUMN IF NOT EXISTS ledger_entry_id TEXT REFERENCES gift_card_ledger_entries(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS reported_by TEXT;
+
+-- Receipts attach to ledger entries; balance_history_id is kept for older receipts
+ALTER TABLE gift_card_receipts
+ADD COLUMN IF NOT EXISTS ledger_entry_id TEXT REFERENCES gift_card_ledger_entries(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_receipts_ledger_entry_id ON gift_card_receipts(ledger_entry_id);
+
+-- Existing balances become each card's initial load
+INSERT INTO gift_card_ledger_entries (card_id, entry_type, amount, currency, notes, occurred_at)
+SELECT id, 'initial_load', current_balance, COALESCE(balance_currency, 'USD'),
+       'Balance before the ledger', COALESCE(balance_last_updated, created_at)
+FROM cards
+WHERE current_balance IS NOT NULL AND current_balance >= 0
+ON CONFLICT DO NOTHING;
+
+-- Comments for documentation
+COMMENT ON TABLE gift_card_ledger_entries IS 'Gift card balance changes; a card''s balance is the sum of its entries';
+COMMENT ON COLUMN gift_card_ledger_entries.amount IS 'Positive amount for initial_load, spend, reload and refund (spends subtract it); signed change for adjustment';
+COMMENT ON COLUMN gift_card_balance_history.balance IS 'Balance the user reported (e.g. from a receipt or balance check)';
+COMMENT ON COLUMN gift_card_balance_history.computed_balance IS 'Ledger balance when the balance was reported';
+COMMENT ON COLUMN gift_card_balance_history.discrepancy IS 'Reported minus computed balance; non-zero means the ledger is missing or has wrong entries';
+COMMENT ON COLUMN gift_card_receipts.balance_history_id IS 'Deprecated: receipts from before migration 024; new receipts use ledger_entry_id';
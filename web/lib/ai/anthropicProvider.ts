@@ -0,0 +1,85 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AIProviderError } from './errors';
+import { AIProvider, JsonSchema, StructuredCall, StructuredCallResult } from './types';
+
+const DEFAULT_MODEL = process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5-20250929';
+
+// Created on first use so importing this module never needs the API key
+let client: Anthropic | null = null;
+
+function getClient(): Anthropic {
+  if (!client) {
+    client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  }
+  return client;
+}
+
+/**
+ * Structured output via forced tool use: the schema is the tool's input schema
+ * and the model must call it, so the answer arrives as parsed JSON
+ */
+export function createAnthropicProvider(model: string = DEFAULT_MODEL): AIProvider {
+  return {
+    id: 'anthropic',
+
+    async callStructured(call: StructuredCall): Promise<StructuredCallResult> {
+      const message = await getClient().messages.create({
+        model,
+        max_tokens: call.maxTokens,
+        system: call.system,
+        messages: call.messages,
+        tools: [
+          {
+            name: call.toolName,
+            description: call.description,
+            input_schema: toJsonSchema(call.schema) as Anthropic.Tool.InputSchema
+          }
+        ],
+        tool_choice: { type: 'tool', name: call.toolName }
+      });
+
+      const toolUse = message.content.find(
+        (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === call.toolName
+      );
+      const text = message.content
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('');
+
+      if (!toolUse && !text) {
+        throw new AIProviderError('anthropic', `empty response (stop_reason: ${message.stop_reason})`);
+      }
+
+      return {
+        output: toolUse ? toolUse.input : undefined,
+        rawText: toolUse ? JSON.stringify(toolUse.input) : text,
+        model: message.model,
+        usage: {
+          inputTokens: message.usage.input_tokens,
+          outputTokens: message.usage.output_tokens
+        }
+      };
+    }
+  };
+}
+
+// Standard JSON Schema for the API: `nullable` becomes a ["type", "null"] union
+function toJsonSchema(schema: JsonSchema): Record<string, unknown> {
+  const { nullable, properties, items, ...rest } = schema;
+  const result: Record<string, unknown> = { ...rest };
+
+  if (nullable) {
+    result.type = [schema.type, 'null'];
+  }
+  if (properties) {
+    const converted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(properties)) {
+      converted[key] = toJsonSchema(value);
+    }
+    result.properties = converted;
+  }
+  if (items) {
+    result.items = toJsonSchema(items);
+  }
+
+  return result;
+}
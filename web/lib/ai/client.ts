@@ -0,0 +1,135 @@
+import { createAnthropicProvider } from './anthropicProvider';
+import { AIConfigurationError, AIResponseError } from './errors';
+import { validateAndCoerce } from './schema';
+import { createStubProvider } from './stubProvider';
+import { AIMessage, AIProvider, JsonSchema, TokenUsage } from './types';
+import { recordTokenUsage } from './usage';
+
+/**
+ * Schema-validated AI calls. The provider is asked for output matching `schema`;
+ * the answer is validated and coerced, and a malformed one is sent back with the
+ * validation errors for another try.
+ */
+
+export interface StructuredRequest<T> {
+  toolName: string; // Names the output shape; also keys stub responses and usage
+  description: string;
+  schema: JsonSchema;
+  prompt: string;
+  system?: string;
+  maxTokens?: number;
+  maxAttempts?: number;
+  provider?: AIProvider; // Defaults to getAIProvider()
+  validate?: (data: T) => string[]; // Rules the schema can't express; errors are retried like schema errors
+}
+
+export interface StructuredResponse<T> {
+  data: T;
+  rawText: string;
+  model: string;
+  provider: string;
+  attempts: number;
+  usage: TokenUsage; // Summed over attempts
+}
+
+const DEFAULT_MAX_TOKENS = 2000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+let defaultProvider: AIProvider | null = null;
+
+/**
+ * AI_PROVIDER=anthropic|stub picks the provider. Without it the Anthropic
+ * provider is used, or the stub in test and development when ANTHROPIC_API_KEY
+ * is missing. Throws AIConfigurationError when no real provider is configured.
+ */
+export function getAIProvider(): AIProvider {
+  if (!defaultProvider) {
+    const configured = process.env.AI_PROVIDER;
+
+    if (configured && configured !== 'anthropic' && configured !== 'stub') {
+      throw new AIConfigurationError(`Unknown AI_PROVIDER "${configured}"; use anthropic or stub`);
+    }
+
+    const useStub = configured === 'stub' || (!configured && !process.env.ANTHROPIC_API_KEY && isLocalEnvironment());
+    if (!useStub && !process.env.ANTHROPIC_API_KEY) {
+      throw new AIConfigurationError('ANTHROPIC_API_KEY is not set; set it or AI_PROVIDER=stub');
+    }
+
+    if (useStub && configured !== 'stub') {
+      console.warn('[AI] ANTHROPIC_API_KEY is not set, using the stub provider');
+    }
+    defaultProvider = useStub ? createStubProvider() : createAnthropicProvider();
+  }
+  return defaultProvider;
+}
+
+function isLocalEnvironment(): boolean {
+  return process.env.NODE_ENV === 'test' || process.env.NODE_ENV === 'development';
+}
+
+export async function generateStructured<T>(request: StructuredRequest<T>): Promise<StructuredResponse<T>> {
+  if (request.schema.type !== 'object') {
+    throw new Error(`${request.toolName}: structured output schema must be an object`);
+  }
+
+  const provider = request.provider || getAIProvider();
+  const maxAttempts = request.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const messages: AIMessage[] = [{ role: 'user', content: request.prompt }];
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const result = await provider.callStructured({
+      toolName: request.toolName,
+      description: request.description,
+      schema: request.schema,
+      system: request.system,
+      messages: [...messages],
+      maxTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS
+    });
+
+    usage.inputTokens += result.usage.inputTokens;
+    usage.outputTokens += result.usage.outputTokens;
+    recordTokenUsage(request.toolName, provider.id, result.usage);
+
+    const validation = validateAndCoerce<T>(request.schema, result.output ?? parseJson(result.rawText));
+    errors = validation.ok ? (request.validate ? request.validate(validation.value) : []) : validation.errors;
+
+    if (validation.ok && errors.length === 0) {
+      return {
+        data: validation.value,
+        rawText: result.rawText,
+        model: result.model,
+        provider: provider.id,
+        attempts: attempt,
+        usage
+      };
+    }
+
+    console.warn(`[AI] ${request.toolName} attempt ${attempt} invalid: ${errors.join('; ')}`);
+
+    messages.push(
+      { role: 'assistant', content: result.rawText || '(empty response)' },
+      {
+        role: 'user',
+        content: `That response did not match the required schema:\n- ${errors.join('\n- ')}\n` +
+          `Respond again using the ${request.toolName} tool with corrected values.`
+      }
+    );
+  }
+
+  throw new AIResponseError(request.toolName, maxAttempts, errors);
+}
+
+// Providers that answer in text rather than a tool call
+function parseJson(text: string): unknown {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    return undefined;
+  }
+}
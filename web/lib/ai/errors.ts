@@ -0,0 +1,22 @@
+// Errors thrown by generateStructured and getAIProvider
+
+export class AIResponseError extends Error {
+  constructor(public toolName: string, public attempts: number, public validationErrors: string[]) {
+    super(`${toolName}: no valid response after ${attempts} attempt${attempts === 1 ? '' : 's'} (${validationErrors.join('; ')})`);
+    this.name = 'AIResponseError';
+  }
+}
+
+export class AIProviderError extends Error {
+  constructor(public providerId: string, message: string) {
+    super(`${providerId}: ${message}`);
+    this.name = 'AIProviderError';
+  }
+}
+
+export class AIConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIConfigurationError';
+  }
+}
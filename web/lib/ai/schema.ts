@@ -0,0 +1,116 @@
+import { JsonSchema } from './types';
+
+/**
+ * Check a model's output against a JSON schema, coercing the near-misses models
+ * produce ("0.8" for 0.8, "True" for true, " Target " for "Target", "Retail"
+ * for the enum value "retail"). Properties not in the schema are dropped.
+ */
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+export function validateAndCoerce<T>(schema: JsonSchema, input: unknown): ValidationResult<T> {
+  const errors: string[] = [];
+  const value = coerce(schema, input, '', errors);
+
+  return errors.length === 0 ? { ok: true, value: value as T } : { ok: false, errors };
+}
+
+function coerce(schema: JsonSchema, value: unknown, path: string, errors: string[]): unknown {
+  const at = path || '(root)';
+
+  if (value === null || value === undefined) {
+    if (schema.nullable) {
+      return null;
+    }
+    errors.push(`${at}: is required`);
+    return undefined;
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+        errors.push(`${at}: expected string`);
+        return undefined;
+      }
+      const text = String(value).trim();
+      if (schema.enum) {
+        const match = schema.enum.find(option => String(option).toLowerCase() === text.toLowerCase());
+        if (match === undefined) {
+          errors.push(`${at}: must be one of ${schema.enum.join(', ')}`);
+          return undefined;
+        }
+        return match;
+      }
+      return text;
+    }
+
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value.trim()) : value;
+      if (typeof number !== 'number' || !isFinite(number)) {
+        errors.push(`${at}: expected ${schema.type}`);
+        return undefined;
+      }
+      if (schema.type === 'integer' && Math.floor(number) !== number) {
+        errors.push(`${at}: expected integer`);
+        return undefined;
+      }
+      if ((schema.minimum !== undefined && number < schema.minimum) ||
+          (schema.maximum !== undefined && number > schema.maximum)) {
+        errors.push(`${at}: must be between ${schema.minimum ?? '-infinity'} and ${schema.maximum ?? 'infinity'}`);
+        return undefined;
+      }
+      return number;
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) {
+        return value.trim().toLowerCase() === 'true';
+      }
+      errors.push(`${at}: expected boolean`);
+      return undefined;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        errors.push(`${at}: expected array`);
+        return undefined;
+      }
+      return schema.items
+        ? value.map((item, index) => coerce(schema.items as JsonSchema, item, `${path}[${index}]`, errors))
+        : value;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${at}: expected object`);
+        return undefined;
+      }
+
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      const required = schema.required || [];
+
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        const propertyPath = path ? `${path}.${key}` : key;
+        const propertyValue = input[key];
+
+        if ((propertyValue === undefined || propertyValue === null) && !required.includes(key)) {
+          if (propertyValue === null && propertySchema.nullable) {
+            result[key] = null;
+          }
+          continue;
+        }
+
+        result[key] = coerce(propertySchema, propertyValue, propertyPath, errors);
+      }
+
+      return result;
+    }
+  }
+}
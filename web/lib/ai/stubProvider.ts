@@ -0,0 +1,67 @@
+import { AIProvider, JsonSchema, StructuredCall, StructuredCallResult } from './types';
+
+/**
+ * Deterministic local provider for tests and development without an API key or
+ * network. Features register a canned answer per tool; anything else gets a
+ * placeholder built from the schema (first enum value, minimum, empty arrays).
+ */
+
+export type StubResponder = (call: StructuredCall) => unknown;
+
+// Features register their stub answers here at module load
+const responders = new Map<string, StubResponder>();
+
+export function registerStubResponse(toolName: string, responder: StubResponder): void {
+  responders.set(toolName, responder);
+}
+
+export function createStubProvider(): AIProvider {
+  return {
+    id: 'stub',
+
+    async callStructured(call: StructuredCall): Promise<StructuredCallResult> {
+      const responder = responders.get(call.toolName);
+      const output = responder ? responder(call) : placeholderFor(call.schema);
+      const rawText = JSON.stringify(output);
+      const prompt = (call.system || '') + call.messages.map(m => m.content).join('');
+
+      return {
+        output,
+        rawText,
+        model: 'stub',
+        usage: {
+          inputTokens: Math.ceil(prompt.length / 4),
+          outputTokens: Math.ceil(rawText.length / 4)
+        }
+      };
+    }
+  };
+}
+
+function placeholderFor(schema: JsonSchema): unknown {
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'stub';
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [];
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const key of schema.required || []) {
+        const property = schema.properties?.[key];
+        if (property) {
+          result[key] = placeholderFor(property);
+        }
+      }
+      return result;
+    }
+  }
+}
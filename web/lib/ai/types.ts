@@ -0,0 +1,50 @@
+/**
+ * Provider-neutral types for structured AI calls: the caller describes the
+ * output with a JSON schema and gets back a validated value
+ */
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+// The subset of JSON Schema that validateAndCoerce understands
+export interface JsonSchema {
+  type: JsonSchemaType;
+  description?: string;
+  properties?: Record<string, JsonSchema>; // object
+  required?: string[]; // object
+  items?: JsonSchema; // array
+  enum?: Array<string | number>;
+  minimum?: number; // number, integer
+  maximum?: number; // number, integer
+  nullable?: boolean; // Accept null as well as the type
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface StructuredCall {
+  toolName: string; // Identifies the output shape, e.g. "gift_card_brand"
+  description: string;
+  schema: JsonSchema; // Must be an object schema
+  system?: string;
+  messages: AIMessage[];
+  maxTokens: number;
+}
+
+export interface StructuredCallResult {
+  output: unknown; // Unvalidated
+  rawText: string; // What the provider returned, for audit and retry feedback
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface AIProvider {
+  id: string; // 'anthropic', 'stub'
+  callStructured(call: StructuredCall): Promise<StructuredCallResult>;
+}
@@ -0,0 +1,84 @@
+import { kv } from '@vercel/kv';
+import { TokenUsage } from './types';
+
+/**
+ * Token usage per AI feature (tool name) and provider, shown next to the cache
+ * metrics on GET /api/v1/admin/cache. Counted in Vercel KV when configured so
+ * every instance adds to the same totals; per-process otherwise.
+ */
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+}
+
+const USAGE_PREFIX = 'ai:usage:';
+const USAGE_KEYS_KEY = 'ai:usage:keys';
+
+const useVercelKV = !!process.env.KV_URL || !!process.env.REDIS_URL;
+const inMemoryTotals = new Map<string, UsageTotals>();
+
+/**
+ * Count one AI call. Never throws and never blocks the caller on KV.
+ */
+export function recordTokenUsage(toolName: string, providerId: string, usage: TokenUsage): void {
+  const key = `${providerId}:${toolName}`;
+
+  if (useVercelKV) {
+    Promise.all([
+      kv.hincrby(`${USAGE_PREFIX}${key}`, 'calls', 1),
+      kv.hincrby(`${USAGE_PREFIX}${key}`, 'inputTokens', usage.inputTokens),
+      kv.hincrby(`${USAGE_PREFIX}${key}`, 'outputTokens', usage.outputTokens),
+      kv.sadd(USAGE_KEYS_KEY, key)
+    ]).catch(error => console.warn('Token usage error:', error));
+    return;
+  }
+
+  const current = inMemoryTotals.get(key) || emptyTotals();
+  inMemoryTotals.set(key, {
+    calls: current.calls + 1,
+    inputTokens: current.inputTokens + usage.inputTokens,
+    outputTokens: current.outputTokens + usage.outputTokens
+  });
+}
+
+/**
+ * Totals keyed by "<provider>:<tool>"
+ */
+export async function getTokenUsage(): Promise<Record<string, UsageTotals>> {
+  const result: Record<string, UsageTotals> = {};
+
+  if (!useVercelKV) {
+    for (const [key, totals] of inMemoryTotals.entries()) {
+      result[key] = { ...totals };
+    }
+    return result;
+  }
+
+  const keys = await kv.smembers(USAGE_KEYS_KEY);
+  for (const key of keys) {
+    const stored = await kv.hgetall<Record<string, number | string>>(`${USAGE_PREFIX}${key}`);
+    const totals = emptyTotals();
+    for (const field of Object.keys(totals) as Array<keyof UsageTotals>) {
+      totals[field] = Number(stored?.[field] || 0);
+    }
+    result[key] = totals;
+  }
+  return result;
+}
+
+export async function resetTokenUsage(): Promise<void> {
+  if (!useVercelKV) {
+    inMemoryTotals.clear();
+    return;
+  }
+
+  const keys = await kv.smembers(USAGE_KEYS_KEY);
+  for (const key of keys) {
+    await kv.del(`${USAGE_PREFIX}${key}`);
+  }
+  await kv.del(USAGE_KEYS_KEY);
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0 };
+}
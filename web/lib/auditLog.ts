@@ -0,0 +1,38 @@
+import { sql } from '@vercel/postgres';
+
+export interface AuditEvent {
+  userId?: string;
+  action: string;
+  resourceType?: string;
+  resourceId?: string;
+  details?: any;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Record an event in audit_log. Never throws: a failed audit write is logged
+ * and the action that caused it still succeeds.
+ */
+export async function logAuditEvent(event: AuditEvent) {
+  try {
+    await sql`
+      INSERT INTO audit_log (
+        user_id,
+        action,
+        resource_type,
+        resource_id,
+        details
+      )
+      VALUES (
+        ${event.userId || null},
+        ${event.action},
+        ${event.resourceType || null},
+        ${event.resourceId || null},
+        ${JSON.stringify(event.details || {})}
+      )
+    `;
+  } catch (error) {
+    console.error('Failed to log audit event:', error);
+  }
+}
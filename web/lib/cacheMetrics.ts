@@ -0,0 +1,92 @@
+import { kv } from '@vercel/kv';
+
+/**
+ * Hit/miss counters per cache namespace (places connectors, place details, icons).
+ * Counted in Vercel KV when configured so every instance adds to the same totals;
+ * per-process otherwise.
+ */
+
+export type CacheEvent = 'hit' | 'miss' | 'stale' | 'negative';
+
+export type CacheCounters = Record<CacheEvent, number>;
+
+const METRICS_PREFIX = 'cache:metrics:';
+const NAMESPACES_KEY = 'cache:metrics:namespaces';
+
+const useVercelKV = !!process.env.KV_URL || !!process.env.REDIS_URL;
+const inMemoryCounters = new Map<string, CacheCounters>();
+
+// Key prefixes owned by each namespace, e.g. "nominatim" -> "nominatim:"
+const namespaces = new Map<string, string>();
+
+export function registerCacheNamespace(name: string, keyPrefix: string): void {
+  namespaces.set(name, keyPrefix);
+}
+
+export function getCacheNamespaces(): Array<{ name: string; keyPrefix: string }> {
+  return Array.from(namespaces.entries()).map(([name, keyPrefix]) => ({ name, keyPrefix }));
+}
+
+/**
+ * Count one cache lookup. Never throws and never blocks the caller on KV.
+ */
+export function recordCacheEvent(namespace: string, event: CacheEvent): void {
+  if (useVercelKV) {
+    Promise.all([
+      kv.hincrby(`${METRICS_PREFIX}${namespace}`, event, 1),
+      kv.sadd(NAMESPACES_KEY, namespace)
+    ]).catch(error => console.warn('Cache metrics error:', error));
+    return;
+  }
+
+  const counters = inMemoryCounters.get(namespace) || emptyCounters();
+  counters[event]++;
+  inMemoryCounters.set(namespace, counters);
+}
+
+export async function getCacheMetrics(): Promise<Record<string, CacheCounters>> {
+  const result: Record<string, CacheCounters> = {};
+
+  if (!useVercelKV) {
+    for (const [namespace, counters] of inMemoryCounters.entries()) {
+      result[namespace] = { ...counters };
+    }
+    return result;
+  }
+
+  const names = await kv.smembers(NAMESPACES_KEY);
+  for (const namespace of names) {
+    const stored = await kv.hgetall<Record<string, number | string>>(`${METRICS_PREFIX}${namespace}`);
+    const counters = emptyCounters();
+    for (const event of Object.keys(counters) as CacheEvent[]) {
+      counters[event] = Number(stored?.[event] || 0);
+    }
+    result[namespace] = counters;
+  }
+  return result;
+}
+
+export async function resetCacheMetrics(namespace?: string): Promise<void> {
+  if (!useVercelKV) {
+    if (namespace) {
+      inMemoryCounters.delete(namespace);
+    } else {
+      inMemoryCounters.clear();
+    }
+    return;
+  }
+
+  const names = namespace ? [namespace] : await kv.smembers(NAMESPACES_KEY);
+  for (const name of names) {
+    await kv.del(`${METRICS_PREFIX}${name}`);
+  }
+}
+
+export function hitRate(counters: CacheCounters): number | null {
+  const lookups = counters.hit + counters.stale + counters.negative + counters.miss;
+  return lookups === 0 ? null : (counters.hit + counters.stale + counters.negative) / lookups;
+}
+
+function emptyCounters(): CacheCounters {
+  return { hit: 0, miss: 0, stale: 0, negative: 0 };
+}
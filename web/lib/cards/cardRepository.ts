@@ -0,0 +1,214 @@
+import { pool } from '../db';
+import { Card, CardCursor, CardInput, CardType, CardUpdate, validityWindowError } from './cards';
+import { CardUpdateError } from './errors';
+import { accessibleCardCondition } from './shareRepository';
+
+/**
+ * A user's wallet cards. Archiving sets `archived_at` (as the Clerk webhook does
+ * when a user is deleted); archived cards are hidden from lists unless asked for
+ * and can be restored. Single-card functions don't check ownership: routes call
+ * requireCardAccess first.
+ */
+
+export interface ListCardsOptions {
+  cardType?: CardType;
+  networkId?: string;
+  tags?: string[]; // Cards with any of these tags
+  archived?: 'exclude' | 'include' | 'only';
+  limit?: number;
+  cursor?: CardCursor;
+}
+
+// Exact created_at for cursors; the ISO string from a Date drops microseconds
+const CARD_COLUMNS = `c.*,
+  to_char(c.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_created_at`;
+
+/**
+ * The user's own cards and those shared with them, newest first. `nextCursor`
+ * is set when there may be more cards.
+ */
+export async function listCards(
+  userId: string,
+  options: ListCardsOptions = {}
+): Promise<{ cards: Card[]; nextCursor: CardCursor | null }> {
+  const limit = options.limit ?? 50;
+  const archived = options.archived || 'exclude';
+
+  const result = await pool.query(
+    `SELECT ${CARD_COLUMNS},
+       CASE WHEN c.user_id = $1 THEN 'owner' ELSE (
+         SELECT cs.role FROM card_shares cs WHERE cs.card_id = c.id AND cs.user_id = $1 AND cs.status = 'accepted'
+       ) END AS role
+     FROM cards c
+     WHERE ${accessibleCardCondition('c', 1)}
+       AND ($2::text IS NULL OR c.card_type = $2)
+       AND ($3::text IS NULL OR $3 = ANY(c.network_ids))
+       AND ($4::text[] IS NULL OR c.tags && $4)
+       AND ($5 = 'include' OR (c.archived_at IS NOT NULL) = ($5 = 'only'))
+       AND ($6::timestamptz IS NULL OR (c.created_at, c.id) < ($6::timestamptz, $7))
+     ORDER BY c.created_at DESC, c.id DESC
+     LIMIT $8`,
+    [
+      userId,
+      options.cardType || null,
+      options.networkId || null,
+      options.tags && options.tags.length > 0 ? options.tags : null,
+      archived,
+      options.cursor?.createdAt || null,
+      options.cursor?.id || null,
+      limit + 1
+    ]
+  );
+
+  const rows = result.rows.slice(0, limit);
+  const last = rows[rows.length - 1];
+
+  return {
+    cards: rows.map(rowToCard),
+    nextCursor: result.rows.length > limit ? { createdAt: last.cursor_created_at, id: last.id } : null
+  };
+}
+
+export async function getCard(cardId: string): Promise<Card | null> {
+  const result = await pool.query(
+    `SELECT ${CARD_COLUMNS} FROM cards c WHERE c.id = $1`,
+    [cardId]
+  );
+
+  return result.rows.length > 0 ? rowToCard(result.rows[0]) : null;
+}
+
+export async function createCard(userId: string, input: CardInput): Promise<Card> {
+  const result = await pool.query(
+    `INSERT INTO cards (
+       id, user_id, name, card_type, barcode_type, payload_encrypted, gift_card_brand_id,
+       tags, network_ids, valid_from, valid_to, one_time, metadata
+     )
+     VALUES (gen_random_uuid()::text, $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+     RETURNING *`,
+    [
+      userId,
+      input.name,
+      input.card_type,
+      input.barcode_type,
+      input.payload_encrypted,
+      input.gift_card_brand_id,
+      input.tags,
+      input.network_ids,
+      input.valid_from,
+      input.valid_to,
+      input.one_time,
+      JSON.stringify(input.metadata)
+    ]
+  );
+
+  return rowToCard(result.rows[0]);
+}
+
+/**
+ * Change the given fields; null if there is no such card. Throws
+ * CardUpdateError when the new validity window doesn't fit the stored one
+ * (e.g. a valid_to before the card's valid_from).
+ */
+export async function updateCard(cardId: string, update: CardUpdate): Promise<Card | null> {
+  const sets: string[] = [];
+  const values: any[] = [cardId];
+
+  for (const [field, value] of Object.entries(update)) {
+    if (value === undefined) {
+      continue;
+    }
+    values.push(field === 'metadata' ? JSON.stringify(value) : value);
+    sets.push(`${field} = $${values.length}`);
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const current = await client.query('SELECT valid_from, valid_to FROM cards WHERE id = $1 FOR UPDATE', [cardId]);
+    if (current.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const windowError = validityWindowError(
+      update.valid_from !== undefined ? update.valid_from : toIso(current.rows[0].valid_from),
+      update.valid_to !== undefined ? update.valid_to : toIso(current.rows[0].valid_to)
+    );
+    if (windowError) {
+      throw new CardUpdateError(400, windowError);
+    }
+
+    const result = await client.query(
+      `UPDATE cards SET ${sets.concat('updated_at = NOW()').join(', ')}
+       WHERE id = $1
+       RETURNING *`,
+      values
+    );
+
+    await client.query('COMMIT');
+    return rowToCard(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Soft delete. Archiving an archived card keeps its original archived_at.
+ */
+export async function archiveCard(cardId: string): Promise<Card | null> {
+  const result = await pool.query(
+    `UPDATE cards SET archived_at = COALESCE(archived_at, NOW()), updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [cardId]
+  );
+
+  return result.rows.length > 0 ? rowToCard(result.rows[0]) : null;
+}
+
+export async function restoreCard(cardId: string): Promise<Card | null> {
+  const result = await pool.query(
+    `UPDATE cards SET archived_at = NULL, updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [cardId]
+  );
+
+  return result.rows.length > 0 ? rowToCard(result.rows[0]) : null;
+}
+
+function toIso(value: any): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function rowToCard(row: any): Card {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    name: row.name,
+    card_type: row.card_type || 'loyalty',
+    barcode_type: row.barcode_type,
+    payload_encrypted: row.payload_encrypted,
+    gift_card_brand_id: row.gift_card_brand_id || null,
+    tags: row.tags || [],
+    network_ids: row.network_ids || [],
+    valid_from: toIso(row.valid_from),
+    valid_to: toIso(row.valid_to),
+    one_time: row.one_time === true,
+    used_at: toIso(row.used_at),
+    metadata: row.metadata || {},
+    current_balance: row.current_balance === null || row.current_balance === undefined ? null : Number(row.current_balance),
+    balance_currency: row.balance_currency || null,
+    icon_url: row.custom_icon_url || row.default_icon_url || null,
+    role: row.role || undefined,
+    created_at: toIso(row.created_at) as string,
+    updated_at: toIso(row.updated_at) as string,
+    archived_at: toIso(row.archived_at)
+  };
+}
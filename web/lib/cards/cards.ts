@@ -0,0 +1,223 @@
+import { CardRole } from './permissions';
+
+/**
+ * Wallet cards as returned by /api/v1/cards (the `Card` schema in
+ * docs/api-spec.yaml), request validation and list cursors
+ */
+
+export type CardType = 'loyalty' | 'membership' | 'gift_card' | 'voucher' | 'other';
+
+export type BarcodeType = 'qr' | 'code128' | 'pdf417' | 'aztec' | 'ean13' | 'upc_a' | 'code39' | 'itf';
+
+export const CARD_TYPES: CardType[] = ['loyalty', 'membership', 'gift_card', 'voucher', 'other'];
+
+export const BARCODE_TYPES: BarcodeType[] = ['qr', 'code128', 'pdf417', 'aztec', 'ean13', 'upc_a', 'code39', 'itf'];
+
+export interface Card {
+  id: string;
+  user_id: string;
+  name: string;
+  card_type: CardType;
+  barcode_type: BarcodeType;
+  payload_encrypted: string; // E2E encrypted; the server never decrypts it
+  gift_card_brand_id: string | null;
+  tags: string[];
+  network_ids: string[];
+  valid_from: string | null;
+  valid_to: string | null;
+  one_time: boolean;
+  used_at: string | null;
+  metadata: Record<string, unknown>;
+  current_balance: number | null; // Sum of the card's ledger (lib/cards/ledger.ts)
+  balance_currency: string | null;
+  icon_url: string | null; // Custom icon, else the generated default
+  role?: CardRole; // The requesting user's role: owner, or their share's role
+  created_at: string;
+  updated_at: string;
+  archived_at: string | null;
+}
+
+export interface CardInput {
+  name: string;
+  card_type: CardType;
+  barcode_type: BarcodeType;
+  payload_encrypted: string;
+  gift_card_brand_id: string | null;
+  tags: string[];
+  network_ids: string[];
+  valid_from: string | null;
+  valid_to: string | null;
+  one_time: boolean;
+  metadata: Record<string, unknown>;
+}
+
+// Fields PATCH may change; the barcode itself is replaced by creating a new card
+export type CardUpdate = Partial<Omit<CardInput, 'barcode_type' | 'payload_encrypted'>>;
+
+export interface CardCursor {
+  createdAt: string; // UTC with microseconds, e.g. 2026-01-15T10:30:00.123456Z
+  id: string;
+}
+
+const UPDATABLE_FIELDS: Array<keyof CardUpdate> = [
+  'name', 'card_type', 'gift_card_brand_id', 'tags', 'network_ids', 'valid_from', 'valid_to', 'one_time', 'metadata'
+];
+
+/**
+ * A POST body as a CardInput, or the problems with it
+ */
+export function parseCardInput(body: any): { input?: CardInput; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!body || typeof body !== 'object') {
+    return { errors: ['Request body must be an object'] };
+  }
+  if (typeof body.barcode_type !== 'string' || !BARCODE_TYPES.includes(body.barcode_type as BarcodeType)) {
+    errors.push(`barcode_type must be one of ${BARCODE_TYPES.join(', ')}`);
+  }
+  if (typeof body.payload_encrypted !== 'string' || !body.payload_encrypted) {
+    errors.push('payload_encrypted is required');
+  }
+
+  const { update, errors: fieldErrors } = parseCardUpdate(body);
+  errors.push(...fieldErrors);
+  if (update.name === undefined && !fieldErrors.some(error => error.startsWith('name'))) {
+    errors.push('name is required');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    input: {
+      name: update.name as string,
+      card_type: update.card_type || 'loyalty',
+      barcode_type: body.barcode_type,
+      payload_encrypted: body.payload_encrypted,
+      gift_card_brand_id: update.gift_card_brand_id ?? null,
+      tags: update.tags || [],
+      network_ids: update.network_ids || [],
+      valid_from: update.valid_from ?? null,
+      valid_to: update.valid_to ?? null,
+      one_time: update.one_time ?? false,
+      metadata: update.metadata || {}
+    },
+    errors
+  };
+}
+
+/**
+ * The fields of a PATCH body that are present, or the problems with them
+ */
+export function parseCardUpdate(body: any): { update: CardUpdate; errors: string[] } {
+  const errors: string[] = [];
+  const update: CardUpdate = {};
+
+  if (!body || typeof body !== 'object') {
+    return { update, errors: ['Request body must be an object'] };
+  }
+
+  for (const field of UPDATABLE_FIELDS) {
+    const value = body[field];
+    if (value === undefined) {
+      continue;
+    }
+
+    switch (field) {
+      case 'name':
+        if (typeof value !== 'string' || !value.trim()) {
+          errors.push('name must be a non-empty string');
+        } else {
+          update.name = value.trim();
+        }
+        break;
+
+      case 'card_type':
+        if (!CARD_TYPES.includes(value)) {
+          errors.push(`card_type must be one of ${CARD_TYPES.join(', ')}`);
+        } else {
+          update.card_type = value;
+        }
+        break;
+
+      case 'gift_card_brand_id':
+        if (value !== null && (typeof value !== 'string' || !value)) {
+          errors.push('gift_card_brand_id must be a string or null');
+        } else {
+          update.gift_card_brand_id = value;
+        }
+        break;
+
+      case 'tags':
+      case 'network_ids':
+        if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+          errors.push(`${field} must be a list of strings`);
+        } else {
+          update[field] = value;
+        }
+        break;
+
+      case 'valid_from':
+      case 'valid_to':
+        if (value !== null && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+          errors.push(`${field} must be a date-time or null`);
+        } else {
+          update[field] = value === null ? null : new Date(value).toISOString();
+        }
+        break;
+
+      case 'one_time':
+        if (typeof value !== 'boolean') {
+          errors.push('one_time must be a boolean');
+        } else {
+          update.one_time = value;
+        }
+        break;
+
+      case 'metadata':
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          errors.push('metadata must be an object');
+        } else {
+          update.metadata = value;
+        }
+        break;
+    }
+  }
+
+  const windowError = validityWindowError(update.valid_from ?? null, update.valid_to ?? null);
+  if (windowError) {
+    errors.push(windowError);
+  }
+
+  return { update, errors };
+}
+
+/**
+ * Why a card can't be valid from `validFrom` to `validTo` (ISO date-times, null:
+ * open-ended), or null if it can
+ */
+export function validityWindowError(validFrom: string | null, validTo: string | null): string | null {
+  return validFrom && validTo && validTo < validFrom ? 'valid_to must not be before valid_from' : null;
+}
+
+// Opaque to clients: base64url of "<created_at>|<id>"
+export function encodeCardCursor(cursor: CardCursor): string {
+  return Buffer.from(`${cursor.createdAt}|${cursor.id}`).toString('base64')
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeCardCursor(value: string): CardCursor | null {
+  const decoded = Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8');
+  const separator = decoded.lastIndexOf('|');
+  if (separator <= 0 || separator === decoded.length - 1) {
+    return null;
+  }
+
+  const createdAt = decoded.slice(0, separator);
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}Z$/.test(createdAt)) {
+    return null;
+  }
+
+  return { createdAt, id: decoded.slice(separator + 1) };
+}
@@ -0,0 +1,34 @@
+// Errors thrown by requireCardAccess, carrying the status the card routes return
+
+export type CardAccessStatus = 401 | 403 | 404;
+
+export class CardAccessError extends Error {
+  constructor(public status: CardAccessStatus, message: string) {
+    super(message);
+    this.name = 'CardAccessError';
+  }
+}
+
+// An invite that can't be accepted by this user, with the status the route returns
+export class ShareInviteError extends Error {
+  constructor(public status: 403 | 404 | 409 | 410, message: string) {
+    super(message);
+    this.name = 'ShareInviteError';
+  }
+}
+
+// A ledger entry or balance report the card's ledger can't take, with the status the route returns
+export class LedgerError extends Error {
+  constructor(public status: 400 | 404 | 409, message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+// A PATCH that is valid on its own but not combined with the stored card
+export class CardUpdateError extends Error {
+  constructor(public status: 400, message: string) {
+    super(message);
+    this.name = 'CardUpdateError';
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Gift card ledger: a card's balance is the sum of its entries, starting from
+ * one initial load. Amounts are positive except for adjustments, which carry
+ * the signed change. Money is added up in cents so sums don't drift.
+ */
+
+export type LedgerEntryType = 'initial_load' | 'spend' | 'reload' | 'refund' | 'adjustment';
+
+export const LEDGER_ENTRY_TYPES: LedgerEntryType[] = ['initial_load', 'spend', 'reload', 'refund', 'adjustment'];
+
+export interface LedgerEntry {
+  id: string;
+  card_id: string;
+  entry_type: LedgerEntryType;
+  amount: number;
+  currency: string;
+  merchant: string | null;
+  location_id: string | null;
+  notes: string | null;
+  occurred_at: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface LedgerEntryInput {
+  entry_type: LedgerEntryType;
+  amount: number;
+  currency: string | null; // null: the card's balance currency
+  merchant: string | null;
+  location_id: string | null;
+  notes: string | null;
+  occurred_at: string | null; // null: now
+  reported_balance: number | null; // Balance the user saw after this entry, checked against the ledger
+}
+
+// A balance the user reported, compared with the ledger (gift_card_balance_history)
+export interface BalanceReport {
+  id: string;
+  card_id: string;
+  balance: number;
+  computed_balance: number | null;
+  discrepancy: number | null; // reported - computed
+  currency: string;
+  notes: string | null;
+  ledger_entry_id: string | null;
+  created_at: string;
+}
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+export function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * How much the entry changes the balance
+ */
+export function entryDelta(entry: Pick<LedgerEntry, 'entry_type' | 'amount'>): number {
+  return entry.entry_type === 'spend' ? -entry.amount : entry.amount;
+}
+
+export function computeBalance(entries: Array<Pick<LedgerEntry, 'entry_type' | 'amount'>>): number {
+  return fromCents(entries.reduce((sum, entry) => sum + toCents(entryDelta(entry)), 0));
+}
+
+/**
+ * Reported minus computed balance, or null when they agree to the cent
+ */
+export function balanceDiscrepancy(reported: number, computed: number): number | null {
+  const difference = toCents(reported) - toCents(computed);
+  return difference === 0 ? null : fromCents(difference);
+}
+
+/**
+ * Whether a report still needs attention: it disagreed with the ledger when it
+ * was made and still disagrees with the current `balance`. Entries that account
+ * for the difference (a missing spend, or an adjustment) resolve it.
+ */
+export function isUnresolvedReport(report: Pick<BalanceReport, 'balance' | 'discrepancy'>, balance: number | null): boolean {
+  return report.discrepancy !== null && (balance === null || balanceDiscrepancy(report.balance, balance) !== null);
+}
+
+/**
+ * Why the entry can't be added to a ledger with `balance` (null: no entries
+ * yet), or null if it can
+ */
+export function ledgerEntryProblem(entry: Pick<LedgerEntry, 'entry_type' | 'amount'>, balance: number | null): string | null {
+  if (balance === null) {
+    return entry.entry_type === 'initial_load' ? null : 'The first ledger entry must be an initial_load';
+  }
+  if (entry.entry_type === 'initial_load') {
+    return 'This card already has an initial_load; record an adjustment instead';
+  }
+  if (toCents(balance) + toCents(entryDelta(entry)) < 0) {
+    return 'This entry would make the balance negative';
+  }
+  return null;
+}
+
+/**
+ * A POST body as a LedgerEntryInput, or the problems with it
+ */
+export function parseLedgerEntryInput(body: any): { input?: LedgerEntryInput; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!body || typeof body !== 'object') {
+    return { errors: ['Request body must be an object'] };
+  }
+
+  const entryType = body.entry_type;
+  if (!LEDGER_ENTRY_TYPES.includes(entryType)) {
+    errors.push(`entry_type must be one of ${LEDGER_ENTRY_TYPES.join(', ')}`);
+  }
+
+  const amount = parseAmount(body.amount);
+  if (amount === null) {
+    errors.push('amount must be a number with at most 2 decimal places');
+  } else if (entryType === 'adjustment' ? amount === 0 : entryType === 'initial_load' ? amount < 0 : amount <= 0) {
+    errors.push(entryType === 'adjustment'
+      ? 'amount must not be 0 for an adjustment'
+      : entryType === 'initial_load' ? 'amount must not be negative' : 'amount must be positive');
+  }
+
+  if (body.currency !== undefined && body.currency !== null && !isCurrencyCode(body.currency)) {
+    errors.push('currency must be a 3-letter ISO code, e.g. USD');
+  }
+
+  for (const field of ['merchant', 'location_id', 'notes']) {
+    if (body[field] !== undefined && body[field] !== null && typeof body[field] !== 'string') {
+      errors.push(`${field} must be a string or null`);
+    }
+  }
+
+  if (body.occurred_at !== undefined && body.occurred_at !== null
+    && (typeof body.occurred_at !== 'string' || isNaN(Date.parse(body.occurred_at)))) {
+    errors.push('occurred_at must be a date-time or null');
+  }
+
+  const reportedBalance = body.reported_balance === undefined || body.reported_balance === null
+    ? null
+    : parseAmount(body.reported_balance);
+  if (body.reported_balance !== undefined && body.reported_balance !== null && (reportedBalance === null || reportedBalance < 0)) {
+    errors.push('reported_balance must be a non-negative number with at most 2 decimal places');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    input: {
+      entry_type: entryType,
+      amount: amount as number,
+      currency: body.currency || null,
+      merchant: body.merchant?.trim() || null,
+      location_id: body.location_id || null,
+      notes: body.notes?.trim() || null,
+      occurred_at: body.occurred_at ? new Date(body.occurred_at).toISOString() : null,
+      reported_balance: reportedBalance
+    },
+    errors
+  };
+}
+
+/**
+ * A money amount from a JSON number or numeric string, or null if it isn't one
+ * (or doesn't fit NUMERIC(10,2))
+ */
+export function parseAmount(value: unknown): number | null {
+  const amount = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  if (!isFinite(amount) || Math.abs(amount) >= 1e8 || Math.abs(toCents(amount) - amount * 100) > 1e-6) {
+    return null;
+  }
+  return amount;
+}
+
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === 'string' && CURRENCY_PATTERN.test(value);
+}
@@ -0,0 +1,337 @@
+import type { VercelPoolClient } from '@vercel/postgres';
+import { pool } from '../db';
+import { LedgerError } from './errors';
+import { BalanceReport, LedgerEntry, LedgerEntryInput, balanceDiscrepancy, isUnresolvedReport, ledgerEntryProblem } from './ledger';
+
+/**
+ * Gift card ledgers (gift_card_ledger_entries) and reported balances
+ * (gift_card_balance_history), see db/migrations/024_gift_card_ledger.sql.
+ * Writes lock the card row so concurrent entries see each other's balance, and
+ * keep cards.current_balance equal to the ledger sum. Routes call
+ * requireCardAccess first.
+ */
+
+const BALANCE_SQL = `COALESCE(SUM(CASE WHEN entry_type = 'spend' THEN -amount ELSE amount END), 0)`;
+
+export async function listLedgerEntries(
+  cardId: string,
+  options: { limit: number; offset: number }
+): Promise<{ entries: LedgerEntry[]; total: number }> {
+  const [entries, count] = await Promise.all([
+    pool.query(
+      `SELECT * FROM gift_card_ledger_entries
+       WHERE card_id = $1
+       ORDER BY occurred_at DESC, created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [cardId, options.limit, options.offset]
+    ),
+    pool.query('SELECT COUNT(*) AS total FROM gift_card_ledger_entries WHERE card_id = $1', [cardId])
+  ]);
+
+  return { entries: entries.rows.map(rowToEntry), total: parseInt(count.rows[0].total) };
+}
+
+export async function getLedgerEntry(cardId: string, entryId: string): Promise<LedgerEntry | null> {
+  const result = await pool.query(
+    'SELECT * FROM gift_card_ledger_entries WHERE id = $1 AND card_id = $2',
+    [entryId, cardId]
+  );
+
+  return result.rows.length > 0 ? rowToEntry(result.rows[0]) : null;
+}
+
+/**
+ * Add an entry and return the new balance. With `reported_balance` the
+ * balance the user saw is recorded too, flagged if the ledger disagrees.
+ * Throws LedgerError when the entry doesn't fit the ledger.
+ */
+export async function addLedgerEntry(
+  cardId: string,
+  input: LedgerEntryInput,
+  userId: string
+): Promise<{ entry: LedgerEntry; balance: number; currency: string; report: BalanceReport | null }> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const ledger = await lockLedger(client, cardId);
+    const currency = ledgerCurrency(ledger, input.currency);
+
+    const problem = ledgerEntryProblem(input, ledger.balance);
+    if (problem) {
+      throw new LedgerError(409, problem);
+    }
+
+    const entry = await insertEntry(client, cardId, { ...input, currency }, userId);
+    const balance = await syncCardBalance(client, cardId, currency);
+
+    const report = input.reported_balance === null
+      ? null
+      : await insertReport(client, cardId, {
+          balance: input.reported_balance,
+          computedBalance: balance,
+          currency,
+          notes: null,
+          ledgerEntryId: entry.id
+        }, userId);
+
+    await client.query('COMMIT');
+    return { entry, balance, currency, report };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record a balance the user read off the card or a receipt. The first report
+ * of a card with no ledger becomes its initial load. Later reports are compared
+ * with the ledger; with `reconcile` a mismatch is fixed with an adjustment.
+ */
+export async function reportBalance(
+  cardId: string,
+  input: { balance: number; currency: string | null; notes: string | null; reconcile: boolean },
+  userId: string
+): Promise<{ report: BalanceReport; entry: LedgerEntry | null; balance: number; currency: string }> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const ledger = await lockLedger(client, cardId);
+    const currency = ledgerCurrency(ledger, input.currency);
+
+    let entry: LedgerEntry | null = null;
+    const discrepancy = ledger.balance === null ? null : balanceDiscrepancy(input.balance, ledger.balance);
+
+    if (ledger.balance === null) {
+      entry = await insertEntry(client, cardId, entryFields('initial_load', input.balance, currency, input.notes), userId);
+    } else if (discrepancy !== null && input.reconcile) {
+      entry = await insertEntry(
+        client,
+        cardId,
+        entryFields('adjustment', discrepancy, currency, input.notes || 'Reconciled to reported balance'),
+        userId
+      );
+    }
+
+    const balance = await syncCardBalance(client, cardId, currency);
+    const report = await insertReport(client, cardId, {
+      balance: input.balance,
+      computedBalance: ledger.balance === null ? input.balance : ledger.balance,
+      currency,
+      notes: input.notes,
+      ledgerEntryId: entry ? entry.id : null
+    }, userId);
+
+    await client.query('COMMIT');
+    return { report, entry, balance, currency };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * The ledger balance, and the latest reported balance if it is unresolved
+ * (see isUnresolvedReport)
+ */
+export async function getBalanceSummary(cardId: string): Promise<{
+  balance: number | null;
+  currency: string | null;
+  lastUpdated: string | null;
+  discrepancy: BalanceReport | null;
+}> {
+  const [card, latest] = await Promise.all([
+    pool.query(
+      'SELECT current_balance, balance_currency, balance_last_updated FROM cards WHERE id = $1',
+      [cardId]
+    ),
+    pool.query(
+      `SELECT * FROM gift_card_balance_history
+       WHERE card_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT 1`,
+      [cardId]
+    )
+  ]);
+
+  if (card.rows.length === 0) {
+    throw new LedgerError(404, 'Card not found');
+  }
+
+  const row = card.rows[0];
+  const balance = row.current_balance === null ? null : Number(row.current_balance);
+  const report = latest.rows[0] ? rowToReport(latest.rows[0]) : null;
+
+  return {
+    balance,
+    currency: row.balance_currency || null,
+    lastUpdated: toIso(row.balance_last_updated),
+    discrepancy: report && isUnresolvedReport(report, balance) ? report : null
+  };
+}
+
+async function lockLedger(
+  client: VercelPoolClient,
+  cardId: string
+): Promise<{ balance: number | null; currency: string | null }> {
+  const card = await client.query('SELECT balance_currency FROM cards WHERE id = $1 FOR UPDATE', [cardId]);
+  if (card.rows.length === 0) {
+    throw new LedgerError(404, 'Card not found');
+  }
+
+  const sum = await client.query(
+    `SELECT COUNT(*) AS entries, ${BALANCE_SQL} AS balance
+     FROM gift_card_ledger_entries WHERE card_id = $1`,
+    [cardId]
+  );
+
+  return {
+    balance: parseInt(sum.rows[0].entries) === 0 ? null : Number(sum.rows[0].balance),
+    currency: card.rows[0].balance_currency || null
+  };
+}
+
+// A ledger keeps the currency of its initial load
+function ledgerCurrency(ledger: { balance: number | null; currency: string | null }, requested: string | null): string {
+  if (ledger.balance === null) {
+    return requested || ledger.currency || 'USD';
+  }
+
+  const currency = ledger.currency || 'USD';
+  if (requested && requested !== currency) {
+    throw new LedgerError(400, `This card's balance is in ${currency}`);
+  }
+  return currency;
+}
+
+function entryFields(
+  entryType: LedgerEntryInput['entry_type'],
+  amount: number,
+  currency: string,
+  notes: string | null
+): LedgerEntryInput {
+  return {
+    entry_type: entryType,
+    amount,
+    currency,
+    merchant: null,
+    location_id: null,
+    notes,
+    occurred_at: null,
+    reported_balance: null
+  };
+}
+
+async function insertEntry(
+  client: VercelPoolClient,
+  cardId: string,
+  input: LedgerEntryInput,
+  userId: string
+): Promise<LedgerEntry> {
+  const result = await client.query(
+    `INSERT INTO gift_card_ledger_entries
+       (card_id, entry_type, amount, currency, merchant, location_id, notes, occurred_at, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8::timestamptz, NOW()), $9)
+     RETURNING *`,
+    [
+      cardId,
+      input.entry_type,
+      input.amount,
+      input.currency,
+      input.merchant,
+      input.location_id,
+      input.notes,
+      input.occurred_at,
+      userId
+    ]
+  );
+
+  return rowToEntry(result.rows[0]);
+}
+
+// cards.current_balance is only ever set from the ledger sum
+async function syncCardBalance(client: VercelPoolClient, cardId: string, currency: string): Promise<number> {
+  const result = await client.query(
+    `UPDATE cards SET
+       current_balance = (SELECT ${BALANCE_SQL} FROM gift_card_ledger_entries WHERE card_id = $1),
+       balance_currency = $2,
+       balance_last_updated = NOW(),
+       updated_at = NOW()
+     WHERE id = $1
+     RETURNING current_balance`,
+    [cardId, currency]
+  );
+
+  return Number(result.rows[0].current_balance);
+}
+
+async function insertReport(
+  client: VercelPoolClient,
+  cardId: string,
+  report: { balance: number; computedBalance: number; currency: string; notes: string | null; ledgerEntryId: string | null },
+  userId: string
+): Promise<BalanceReport> {
+  const result = await client.query(
+    `INSERT INTO gift_card_balance_history
+       (card_id, balance, computed_balance, discrepancy, currency, notes, ledger_entry_id, reported_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [
+      cardId,
+      report.balance,
+      report.computedBalance,
+      balanceDiscrepancy(report.balance, report.computedBalance),
+      report.currency,
+      report.notes,
+      report.ledgerEntryId,
+      userId
+    ]
+  );
+
+  return rowToReport(result.rows[0]);
+}
+
+function toIso(value: any): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toNumber(value: any): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function rowToEntry(row: any): LedgerEntry {
+  return {
+    id: row.id,
+    card_id: row.card_id,
+    entry_type: row.entry_type,
+    amount: Number(row.amount),
+    currency: row.currency,
+    merchant: row.merchant || null,
+    location_id: row.location_id || null,
+    notes: row.notes || null,
+    occurred_at: toIso(row.occurred_at) as string,
+    created_by: row.created_by || null,
+    created_at: toIso(row.created_at) as string
+  };
+}
+
+function rowToReport(row: any): BalanceReport {
+  return {
+    id: row.id,
+    card_id: row.card_id,
+    balance: Number(row.balance),
+    computed_balance: toNumber(row.computed_balance),
+    discrepancy: toNumber(row.discrepancy),
+    currency: row.currency,
+    notes: row.notes || null,
+    ledger_entry_id: row.ledger_entry_id || null,
+    created_at: toIso(row.created_at) as string
+  };
+}
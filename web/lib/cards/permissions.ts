@@ -0,0 +1,38 @@
+/**
+ * What a user may do with a card: the owner can do everything, and users the
+ * card is shared with (see shareRepository.ts) get the permissions of their
+ * share's role. Routes ask for a permission, never a role.
+ */
+
+export type ShareRole = 'viewer' | 'balance_editor' | 'co_owner';
+
+export type CardRole = 'owner' | ShareRole;
+
+export type CardPermission = 'read' | 'update_balance' | 'write' | 'manage';
+
+export const SHARE_ROLES: ShareRole[] = ['viewer', 'balance_editor', 'co_owner'];
+
+// read: view the card and its balance, receipts, icon and locations
+// update_balance: record balances and receipts
+// write: change the card, its icon and locations
+// manage: archive, restore and control who else has access
+export const CARD_ROLE_PERMISSIONS: Record<CardRole, CardPermission[]> = {
+  owner: ['read', 'update_balance', 'write', 'manage'],
+  co_owner: ['read', 'update_balance', 'write', 'manage'],
+  balance_editor: ['read', 'update_balance'],
+  viewer: ['read']
+};
+
+export function hasCardPermission(role: CardRole | null, permission: CardPermission): boolean {
+  return role !== null && CARD_ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * `shareRole` is the role of the user's accepted share of the card, if any
+ */
+export function resolveCardRole(card: { user_id: string; shareRole?: ShareRole | null }, userId: string): CardRole | null {
+  if (card.user_id === userId) {
+    return 'owner';
+  }
+  return card.shareRole || null;
+}
@@ -0,0 +1,56 @@
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { pool } from '../db';
+import { CardPermission, CardRole, hasCardPermission, resolveCardRole } from './permissions';
+import { CardAccessError } from './errors';
+
+export interface CardAccess {
+  userId: string; // The signed-in Clerk user
+  cardId: string;
+  ownerId: string;
+  role: CardRole;
+}
+
+/**
+ * Guard for /api/v1/cards/[cardId] routes: resolves the Clerk user and checks
+ * they may do `permission` with the card, as its owner or through an accepted
+ * share. Throws CardAccessError (401 signed out, 404 no such card, 403 someone
+ * else's card or a share role without the permission).
+ */
+export async function requireCardAccess(cardId: string, permission: CardPermission): Promise<CardAccess> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new CardAccessError(401, 'Unauthorized');
+  }
+
+  const result = await pool.query(
+    `SELECT c.id, c.user_id, s.role AS share_role
+     FROM cards c
+     LEFT JOIN card_shares s ON s.card_id = c.id AND s.user_id = $2 AND s.status = 'accepted'
+     WHERE c.id = $1`,
+    [cardId, userId]
+  );
+  if (result.rows.length === 0) {
+    throw new CardAccessError(404, 'Card not found');
+  }
+
+  const card = result.rows[0];
+  const role = resolveCardRole({ user_id: card.user_id, shareRole: card.share_role }, userId);
+
+  if (!hasCardPermission(role, permission)) {
+    throw new CardAccessError(403, role ? `Forbidden: ${permission} access to this card required` : 'Forbidden: Card does not belong to this user');
+  }
+
+  return { userId, cardId, ownerId: card.user_id, role: role as CardRole };
+}
+
+/**
+ * The signed-in user's verified email addresses, for matching email invites
+ */
+export async function getVerifiedEmails(): Promise<string[]> {
+  const user = await currentUser();
+
+  return (user?.emailAddresses || [])
+    .filter(address => address.verification?.status === 'verified')
+    .map(address => address.emailAddress);
+}
@@ -0,0 +1,191 @@
+import { pool } from '../db';
+import { ShareRole } from './permissions';
+import { ShareInviteError } from './errors';
+import { CardShare, SHARE_INVITE_TTL_DAYS, createInviteToken, hashInviteToken, inviteProblem, normalizeEmail } from './shares';
+
+/**
+ * Card shares, stored in `card_shares` (see db/migrations/023_card_shares.sql).
+ * Callers check the card permission (requireCardAccess) and write audit_log.
+ */
+
+/**
+ * SQL condition: user $param owns card `alias` or has accepted a share of it
+ */
+export function accessibleCardCondition(alias: string, param: number): string {
+  return `(${alias}.user_id = $${param} OR EXISTS (
+       SELECT 1 FROM card_shares cs
+       WHERE cs.card_id = ${alias}.id AND cs.user_id = $${param} AND cs.status = 'accepted'))`;
+}
+
+/**
+ * A new invite. The token is only returned here.
+ */
+export async function createShareInvite(
+  cardId: string,
+  input: { role: ShareRole; inviteeEmail?: string; invitedBy: string }
+): Promise<{ share: CardShare; token: string }> {
+  const { token, tokenHash } = createInviteToken();
+
+  const result = await pool.query(
+    `INSERT INTO card_shares (card_id, role, invitee_email, token_hash, invited_by, expires_at)
+     VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(days => $6))
+     RETURNING *`,
+    [
+      cardId,
+      input.role,
+      input.inviteeEmail ? normalizeEmail(input.inviteeEmail) : null,
+      tokenHash,
+      input.invitedBy,
+      SHARE_INVITE_TTL_DAYS
+    ]
+  );
+
+  return { share: rowToShare(result.rows[0]), token };
+}
+
+export async function listCardShares(cardId: string, includeRevoked = false): Promise<CardShare[]> {
+  const result = await pool.query(
+    `SELECT * FROM card_shares
+     WHERE card_id = $1 AND ($2 OR status <> 'revoked')
+     ORDER BY created_at DESC`,
+    [cardId, includeRevoked]
+  );
+
+  return result.rows.map(rowToShare);
+}
+
+/**
+ * Cards shared with the user, and unexpired invites sent to their emails
+ */
+export async function listSharesForUser(
+  userId: string,
+  emails: string[]
+): Promise<{ shares: CardShare[]; invitations: CardShare[] }> {
+  const [shares, invitations] = await Promise.all([
+    pool.query(
+      `SELECT s.*, c.name AS card_name
+       FROM card_shares s
+       JOIN cards c ON c.id = s.card_id
+       WHERE s.user_id = $1 AND s.status = 'accepted'
+       ORDER BY s.accepted_at DESC`,
+      [userId]
+    ),
+    pool.query(
+      `SELECT s.*, c.name AS card_name
+       FROM card_shares s
+       JOIN cards c ON c.id = s.card_id
+       WHERE LOWER(s.invitee_email) = ANY($1::text[])
+         AND s.status = 'pending' AND s.expires_at > NOW()
+         AND c.user_id <> $2
+       ORDER BY s.created_at DESC`,
+      [emails.map(normalizeEmail), userId]
+    )
+  ]);
+
+  return {
+    shares: shares.rows.map(rowToShare),
+    invitations: invitations.rows.map(rowToShare)
+  };
+}
+
+/**
+ * Accept an invite found by its token or (for email invites) its id. Throws
+ * ShareInviteError when this user can't accept it.
+ */
+export async function acceptShare(
+  invite: { token: string } | { shareId: string },
+  user: { userId: string; emails: string[] }
+): Promise<CardShare> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const found = await client.query(
+      `SELECT s.*, c.user_id AS card_owner_id, c.name AS card_name
+       FROM card_shares s
+       JOIN cards c ON c.id = s.card_id
+       WHERE ${'token' in invite ? 's.token_hash = $1' : 's.id::text = $1 AND s.invitee_email IS NOT NULL'}
+       FOR UPDATE OF s`,
+      ['token' in invite ? hashInviteToken(invite.token) : invite.shareId]
+    );
+
+    if (found.rows.length === 0) {
+      throw new ShareInviteError(404, 'Invite not found');
+    }
+
+    const row = found.rows[0];
+    const problem = inviteProblem({ ...rowToShare(row), cardOwnerId: row.card_owner_id }, user);
+    if (problem) {
+      throw problem;
+    }
+
+    const existing = await client.query(
+      `SELECT id FROM card_shares WHERE card_id = $1 AND user_id = $2 AND status = 'accepted'`,
+      [row.card_id, user.userId]
+    );
+    if (existing.rows.length > 0) {
+      throw new ShareInviteError(409, 'This card is already shared with you');
+    }
+
+    const result = await client.query(
+      `UPDATE card_shares SET status = 'accepted', user_id = $2, accepted_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [row.id, user.userId]
+    );
+
+    await client.query('COMMIT');
+    return rowToShare({ ...result.rows[0], card_name: row.card_name });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Revoke a pending or accepted share of the card; null if there is none
+ */
+export async function revokeShare(cardId: string, shareId: string, revokedBy: string): Promise<CardShare | null> {
+  const result = await pool.query(
+    `UPDATE card_shares SET status = 'revoked', revoked_at = NOW(), revoked_by = $3
+     WHERE id::text = $1 AND card_id = $2 AND status <> 'revoked'
+     RETURNING *`,
+    [shareId, cardId, revokedBy]
+  );
+
+  return result.rows.length > 0 ? rowToShare(result.rows[0]) : null;
+}
+
+export async function getCardShare(cardId: string, shareId: string): Promise<CardShare | null> {
+  const result = await pool.query(
+    'SELECT * FROM card_shares WHERE id::text = $1 AND card_id = $2',
+    [shareId, cardId]
+  );
+
+  return result.rows.length > 0 ? rowToShare(result.rows[0]) : null;
+}
+
+function toIso(value: any): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function rowToShare(row: any): CardShare {
+  return {
+    id: row.id,
+    cardId: row.card_id,
+    cardName: row.card_name || undefined,
+    role: row.role,
+    status: row.status,
+    inviteeEmail: row.invitee_email || null,
+    invitedBy: row.invited_by,
+    userId: row.user_id || null,
+    expiresAt: toIso(row.expires_at) as string,
+    acceptedAt: toIso(row.accepted_at),
+    revokedAt: toIso(row.revoked_at),
+    revokedBy: row.revoked_by || null,
+    createdAt: toIso(row.created_at) as string
+  };
+}
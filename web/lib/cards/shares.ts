@@ -0,0 +1,78 @@
+import { createHash, randomBytes } from 'crypto';
+import { ShareRole } from './permissions';
+import { ShareInviteError } from './errors';
+
+/**
+ * Card share invites. An email invite can only be accepted by a user with that
+ * (verified) email; a link invite by anyone holding its token. Only a hash of
+ * the token is stored.
+ */
+
+export type ShareStatus = 'pending' | 'accepted' | 'revoked';
+
+export interface CardShare {
+  id: string;
+  cardId: string;
+  cardName?: string;
+  role: ShareRole;
+  status: ShareStatus;
+  inviteeEmail: string | null; // null for link invites
+  invitedBy: string;
+  userId: string | null; // Who accepted
+  expiresAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  createdAt: string;
+}
+
+export const SHARE_INVITE_TTL_DAYS = 14;
+
+export function createInviteToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(24).toString('base64url');
+  return { token, tokenHash: hashInviteToken(token) };
+}
+
+export function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Why `userId` (with verified `emails`) can't accept the invite, or null if they can
+ */
+export function inviteProblem(
+  share: Pick<CardShare, 'status' | 'inviteeEmail' | 'expiresAt'> & { cardOwnerId: string },
+  user: { userId: string; emails: string[] },
+  now: Date = new Date()
+): ShareInviteError | null {
+  if (share.status === 'revoked') {
+    return new ShareInviteError(410, 'This invite has been revoked');
+  }
+  if (share.status === 'accepted') {
+    return new ShareInviteError(409, 'This invite has already been accepted');
+  }
+  if (new Date(share.expiresAt) <= now) {
+    return new ShareInviteError(410, 'This invite has expired');
+  }
+  if (share.inviteeEmail && !user.emails.map(normalizeEmail).includes(normalizeEmail(share.inviteeEmail))) {
+    return new ShareInviteError(403, 'This invite was sent to a different email address');
+  }
+  if (share.cardOwnerId === user.userId) {
+    return new ShareInviteError(409, 'You already own this card');
+  }
+  return null;
+}
+
+/**
+ * Whether the share is a pending invite sent to one of the user's verified
+ * `emails`, which lets them decline it without any access to the card
+ */
+export function isPendingInvitee(share: Pick<CardShare, 'status' | 'inviteeEmail'>, emails: string[]): boolean {
+  return share.status === 'pending'
+    && share.inviteeEmail !== null
+    && emails.map(normalizeEmail).includes(normalizeEmail(share.inviteeEmail));
+}
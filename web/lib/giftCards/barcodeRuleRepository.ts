@@ -0,0 +1,124 @@
+import { pool } from '../db';
+import { BarcodeRule, BarcodeRuleInput, normalizeBarcode } from './barcodeRules';
+
+/**
+ * Barcode rules per gift card brand, stored in `gift_card_barcode_rules`
+ * (see db/migrations/022_gift_card_barcode_rules.sql)
+ */
+
+const RULES_TTL_MS = 5 * 60 * 1000;
+let rulesCache: { data: BarcodeRule[]; expires: number } | null = null;
+
+/**
+ * Enabled rules for identifyBarcode. Empty (every barcode falls through to the
+ * AI) if the table can't be read.
+ */
+export async function getEnabledBarcodeRules(): Promise<BarcodeRule[]> {
+  if (rulesCache && Date.now() < rulesCache.expires) {
+    return rulesCache.data;
+  }
+
+  try {
+    const result = await pool.query('SELECT * FROM gift_card_barcode_rules WHERE enabled');
+    const data = result.rows.map(rowToRule);
+
+    rulesCache = { data, expires: Date.now() + RULES_TTL_MS };
+    return data;
+  } catch (error) {
+    console.warn('Could not load gift card barcode rules:', error);
+    return [];
+  }
+}
+
+export async function listBarcodeRules(brandId?: string): Promise<BarcodeRule[]> {
+  const result = await pool.query(
+    `SELECT * FROM gift_card_barcode_rules
+     WHERE ($1::text IS NULL OR brand_id = $1)
+     ORDER BY brand_id, prefix, priority DESC`,
+    [brandId || null]
+  );
+
+  return result.rows.map(rowToRule);
+}
+
+export async function getBarcodeRule(id: string): Promise<BarcodeRule | null> {
+  const result = await pool.query('SELECT * FROM gift_card_barcode_rules WHERE id = $1', [id]);
+  return result.rows.length > 0 ? rowToRule(result.rows[0]) : null;
+}
+
+export async function createBarcodeRule(input: BarcodeRuleInput, updatedBy: string): Promise<BarcodeRule> {
+  const result = await pool.query(
+    `INSERT INTO gift_card_barcode_rules (brand_id, prefix, lengths, checksum, priority, enabled, notes, updated_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [
+      input.brandId,
+      normalizeBarcode(input.prefix),
+      input.lengths || [],
+      input.checksum || 'none',
+      input.priority ?? 0,
+      input.enabled ?? true,
+      input.notes || null,
+      updatedBy
+    ]
+  );
+
+  rulesCache = null;
+  return rowToRule(result.rows[0]);
+}
+
+/**
+ * Replace a rule's fields; null if it doesn't exist
+ */
+export async function updateBarcodeRule(id: string, input: BarcodeRuleInput, updatedBy: string): Promise<BarcodeRule | null> {
+  const result = await pool.query(
+    `UPDATE gift_card_barcode_rules SET
+       brand_id = $2,
+       prefix = $3,
+       lengths = $4,
+       checksum = $5,
+       priority = $6,
+       enabled = $7,
+       notes = $8,
+       updated_by = $9,
+       updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [
+      id,
+      input.brandId,
+      normalizeBarcode(input.prefix),
+      input.lengths || [],
+      input.checksum || 'none',
+      input.priority ?? 0,
+      input.enabled ?? true,
+      input.notes || null,
+      updatedBy
+    ]
+  );
+
+  rulesCache = null;
+  return result.rows.length > 0 ? rowToRule(result.rows[0]) : null;
+}
+
+export async function deleteBarcodeRule(id: string): Promise<boolean> {
+  const result = await pool.query('DELETE FROM gift_card_barcode_rules WHERE id = $1', [id]);
+
+  rulesCache = null;
+  return (result.rowCount ?? 0) > 0;
+}
+
+function rowToRule(row: any): BarcodeRule {
+  return {
+    id: row.id,
+    brandId: row.brand_id,
+    prefix: row.prefix,
+    lengths: (row.lengths || []).map(Number),
+    checksum: row.checksum,
+    priority: Number(row.priority),
+    enabled: row.enabled === true,
+    notes: row.notes || null,
+    updatedBy: row.updated_by || null,
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Barcode rules: identify a gift card brand from its number's prefix, length and
+ * check digit, deterministically and without a network call. The most specific
+ * rule wins (longest prefix, then priority).
+ */
+
+export type BarcodeChecksum = 'none' | 'luhn' | 'gtin';
+
+export const BARCODE_CHECKSUMS: BarcodeChecksum[] = ['none', 'luhn', 'gtin'];
+
+export interface BarcodeRule {
+  id: string;
+  brandId: string; // gift_card_brands.id
+  prefix: string; // Normalized, see normalizeBarcode
+  lengths: number[]; // Allowed lengths; empty allows any
+  checksum: BarcodeChecksum;
+  priority: number;
+  enabled: boolean;
+  notes: string | null;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+export interface BarcodeRuleInput {
+  brandId: string;
+  prefix: string;
+  lengths?: number[];
+  checksum?: BarcodeChecksum;
+  priority?: number;
+  enabled?: boolean;
+  notes?: string | null;
+}
+
+export interface BarcodeIdentification {
+  barcode: string; // Normalized
+  rule: BarcodeRule | null;
+  checksumFailed: BarcodeRule[]; // Rules whose prefix and length fit but whose check digit didn't
+}
+
+// Scanners and people add spaces and dashes; letters compare upper-case
+export function normalizeBarcode(raw: string): string {
+  return raw.toUpperCase().replace(/[^0-9A-Z]/g, '');
+}
+
+// Mod 10 check used by payment and most closed-loop gift card numbers
+export function isLuhnValid(digits: string): boolean {
+  if (!/^[0-9]{2,}$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+// EAN-8, UPC-A, EAN-13 and GTIN-14: weights 3 and 1 alternating from the right
+export function isGtinValid(digits: string): boolean {
+  if (!/^([0-9]{8}|[0-9]{12,14})$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 1; i < digits.length; i++) {
+    sum += Number(digits[digits.length - 1 - i]) * (i % 2 === 1 ? 3 : 1);
+  }
+
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+export function passesChecksum(barcode: string, checksum: BarcodeChecksum): boolean {
+  switch (checksum) {
+    case 'luhn':
+      return isLuhnValid(barcode);
+    case 'gtin':
+      return isGtinValid(barcode);
+    default:
+      return true;
+  }
+}
+
+export function identifyBarcode(rules: BarcodeRule[], raw: string): BarcodeIdentification {
+  const barcode = normalizeBarcode(raw);
+  const candidates = rules
+    .filter(rule =>
+      rule.enabled &&
+      barcode.startsWith(rule.prefix) &&
+      (rule.lengths.length === 0 || rule.lengths.includes(barcode.length))
+    )
+    .sort((a, b) => b.prefix.length - a.prefix.length || b.priority - a.priority);
+
+  const rule = candidates.find(candidate => passesChecksum(barcode, candidate.checksum)) || null;
+
+  return {
+    barcode,
+    rule,
+    checksumFailed: rule ? [] : candidates
+  };
+}
+
+/**
+ * Problems with a rule from the admin API; empty when it can be saved. Expects
+ * the prefix already normalized.
+ */
+export function validateBarcodeRule(input: BarcodeRuleInput): string[] {
+  const errors: string[] = [];
+
+  if (!input.brandId) {
+    errors.push('brandId is required');
+  }
+  if (!input.prefix) {
+    errors.push('prefix must contain at least one digit or letter');
+  }
+  if (input.lengths !== undefined) {
+    if (!Array.isArray(input.lengths) || input.lengths.some(length => !Number.isInteger(length) || length < 1)) {
+      errors.push('lengths must be positive integers');
+    } else if (input.prefix && input.lengths.some(length => length < input.prefix.length)) {
+      errors.push('lengths must not be shorter than the prefix');
+    }
+  }
+  if (input.checksum !== undefined && !BARCODE_CHECKSUMS.includes(input.checksum)) {
+    errors.push(`checksum must be one of ${BARCODE_CHECKSUMS.join(', ')}`);
+  }
+  if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+    errors.push('priority must be an integer');
+  }
+
+  return errors;
+}
@@ -0,0 +1,80 @@
+/**
+ * Gift card brand data as discovered by AI and as stored, and the diff shown to
+ * reviewers before a discovery is applied
+ */
+
+export interface DiscoveredNetwork {
+  networkId: string;
+  networkName: string;
+  category?: string; // networks.category for networks that don't exist yet
+}
+
+export interface ProposedBrand {
+  name: string;
+  issuer: string;
+  description: string;
+  category: string;
+  acceptedNetworks: DiscoveredNetwork[];
+}
+
+export interface GiftCardBrand {
+  id: string;
+  name: string;
+  issuer: string;
+  description: string | null;
+  category: string | null;
+  acceptedNetworkIds: string[]; // From the acceptance graph
+  autoDiscovered: boolean;
+  verified: boolean;
+  verifiedBy: string | null;
+  updatedAt: string;
+}
+
+export interface FieldChange {
+  field: 'name' | 'issuer' | 'description' | 'category';
+  before: string | null;
+  after: string | null;
+}
+
+export interface BrandDiff {
+  isNew: boolean;
+  changes: FieldChange[];
+  addedNetworkIds: string[];
+  removedNetworkIds: string[];
+}
+
+const DIFF_FIELDS: Array<FieldChange['field']> = ['name', 'issuer', 'description', 'category'];
+
+export function diffBrand(current: GiftCardBrand | null, proposed: ProposedBrand): BrandDiff {
+  const proposedNetworkIds = unique(proposed.acceptedNetworks.map(n => n.networkId));
+
+  if (!current) {
+    return {
+      isNew: true,
+      changes: DIFF_FIELDS.map(field => ({ field, before: null, after: proposed[field] || null })),
+      addedNetworkIds: proposedNetworkIds,
+      removedNetworkIds: []
+    };
+  }
+
+  return {
+    isNew: false,
+    changes: DIFF_FIELDS
+      .map(field => ({ field, before: current[field] || null, after: proposed[field] || null }))
+      .filter(change => normalize(change.before) !== normalize(change.after)),
+    addedNetworkIds: proposedNetworkIds.filter(id => !current.acceptedNetworkIds.includes(id)),
+    removedNetworkIds: current.acceptedNetworkIds.filter(id => !proposedNetworkIds.includes(id))
+  };
+}
+
+export function isEmptyDiff(diff: BrandDiff): boolean {
+  return !diff.isNew && diff.changes.length === 0 && diff.addedNetworkIds.length === 0 && diff.removedNetworkIds.length === 0;
+}
+
+function normalize(value: string | null): string {
+  return (value || '').trim().replace(/\s+/g, ' ');
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,289 @@
+import { pool } from '../db';
+import { resolveAcceptance } from '../places/acceptance';
+import { getAcceptanceForSubjects, replaceAcceptance } from '../places/acceptanceRepository';
+import { BrandDiff, GiftCardBrand, ProposedBrand, diffBrand, isEmptyDiff } from './brandDiff';
+import { BrandChangedError, ProposalNotPendingError } from './errors';
+
+/**
+ * Review queue for AI-discovered gift card brands, stored in
+ * `gift_card_brand_proposals` (see db/migrations/021_gift_card_brand_proposals.sql).
+ * Only approval writes gift_card_brands and the acceptance graph.
+ */
+
+export type ProposalStatus = 'pending' | 'approved' | 'rejected' | 'superseded';
+
+export const PROPOSAL_STATUSES: ProposalStatus[] = ['pending', 'approved', 'rejected', 'superseded'];
+
+export interface BrandProposal {
+  id: string;
+  brandId: string;
+  status: ProposalStatus;
+  proposed: ProposedBrand;
+  diff: BrandDiff;
+  confidence: number | null;
+  rawResponse: string | null;
+  model: string | null;
+  cardName: string;
+  barcode: string | null;
+  requestedBy: string | null;
+  brandVerified: boolean; // The brand it changes is admin-verified
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
+  createdAt: string;
+}
+
+export interface NewProposal {
+  brandId: string;
+  proposed: ProposedBrand;
+  confidence?: number;
+  rawResponse?: string;
+  model?: string;
+  cardName: string;
+  barcode?: string;
+  requestedBy?: string;
+}
+
+const PROPOSAL_COLUMNS = `p.*, COALESCE(g.verified, false) AS brand_verified`;
+
+export async function getGiftCardBrand(brandId: string): Promise<GiftCardBrand | null> {
+  const result = await pool.query('SELECT * FROM gift_card_brands WHERE id = $1', [brandId]);
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const edges = resolveAcceptance(await getAcceptanceForSubjects([{ type: 'gift_card_brand', id: brandId }]));
+  const row = result.rows[0];
+
+  return {
+    id: row.id,
+    name: row.name,
+    issuer: row.issuer,
+    description: row.description || null,
+    category: row.category || null,
+    acceptedNetworkIds: edges.map(edge => edge.networkId),
+    autoDiscovered: row.auto_discovered === true,
+    verified: row.verified === true,
+    verifiedBy: row.verified_by || null,
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+/**
+ * Stage a discovery for review, superseding any pending proposal for the same
+ * brand. Nothing is staged when it matches the current brand.
+ */
+export async function createProposal(input: NewProposal): Promise<{ proposal: BrandProposal | null; brand: GiftCardBrand | null }> {
+  const brand = await getGiftCardBrand(input.brandId);
+  const diff = diffBrand(brand, input.proposed);
+
+  if (isEmptyDiff(diff)) {
+    return { proposal: null, brand };
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      `UPDATE gift_card_brand_proposals SET status = 'superseded'
+       WHERE brand_id = $1 AND status = 'pending'`,
+      [input.brandId]
+    );
+
+    const inserted = await client.query(
+      `INSERT INTO gift_card_brand_proposals (
+         brand_id, proposed, diff, confidence, raw_response, model,
+         card_name, barcode, requested_by, base_updated_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, (SELECT updated_at FROM gift_card_brands WHERE id = $1))
+       RETURNING id`,
+      [
+        input.brandId, JSON.stringify(input.proposed), JSON.stringify(diff),
+        input.confidence ?? null, input.rawResponse || null, input.model || null,
+        input.cardName, input.barcode || null, input.requestedBy || null
+      ]
+    );
+
+    await client.query('COMMIT');
+
+    return { proposal: await getProposal(inserted.rows[0].id), brand };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getProposal(id: string): Promise<BrandProposal | null> {
+  const result = await pool.query(
+    `SELECT ${PROPOSAL_COLUMNS}
+     FROM gift_card_brand_proposals p
+     LEFT JOIN gift_card_brands g ON g.id = p.brand_id
+     WHERE p.id = $1`,
+    [id]
+  );
+
+  return result.rows.length > 0 ? rowToProposal(result.rows[0]) : null;
+}
+
+export async function listProposals(
+  options: { status?: ProposalStatus; limit?: number; offset?: number } = {}
+): Promise<{ proposals: BrandProposal[]; total: number }> {
+  const [result, count] = await Promise.all([
+    pool.query(
+      `SELECT ${PROPOSAL_COLUMNS}
+       FROM gift_card_brand_proposals p
+       LEFT JOIN gift_card_brands g ON g.id = p.brand_id
+       WHERE ($1::text IS NULL OR p.status = $1)
+       ORDER BY p.created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [options.status || null, options.limit ?? 50, options.offset ?? 0]
+    ),
+    pool.query(
+      'SELECT COUNT(*) FROM gift_card_brand_proposals WHERE ($1::text IS NULL OR status = $1)',
+      [options.status || null]
+    )
+  ]);
+
+  return {
+    proposals: result.rows.map(rowToProposal),
+    total: parseInt(count.rows[0].count)
+  };
+}
+
+/**
+ * Apply a pending proposal, with the reviewer's edits, and mark the brand
+ * verified. Its networks become admin edges in the acceptance graph and replace
+ * the AI's. Throws BrandChangedError if the brand was edited after the proposal
+ * was made, unless `force` is set.
+ */
+export async function approveProposal(
+  id: string,
+  reviewer: string,
+  options: { edits?: Partial<ProposedBrand>; notes?: string; force?: boolean } = {}
+): Promise<BrandProposal | null> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const found = await client.query(
+      `SELECT p.*, (g.id IS NOT NULL AND g.updated_at IS DISTINCT FROM p.base_updated_at) AS brand_changed
+       FROM gift_card_brand_proposals p
+       LEFT JOIN gift_card_brands g ON g.id = p.brand_id
+       WHERE p.id = $1
+       FOR UPDATE OF p`,
+      [id]
+    );
+
+    if (found.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const row = found.rows[0];
+    if (row.status !== 'pending') {
+      throw new ProposalNotPendingError(id, row.status);
+    }
+    if (row.brand_changed && !options.force) {
+      throw new BrandChangedError(row.brand_id);
+    }
+
+    const final: ProposedBrand = { ...row.proposed, ...options.edits };
+    const networkIds = Array.from(new Set(final.acceptedNetworks.map(n => n.networkId)));
+
+    // Create missing networks; existing ones keep their name and category
+    for (const network of final.acceptedNetworks) {
+      await client.query(
+        `INSERT INTO networks (id, name, canonical_names, category)
+         VALUES ($1, $2, ARRAY[$2::text], $3)
+         ON CONFLICT (id) DO NOTHING`,
+        [network.networkId, network.networkName, network.category || final.category || 'other']
+      );
+    }
+
+    await client.query(
+      `INSERT INTO gift_card_brands (
+         id, name, issuer, description, accepted_network_ids, category,
+         auto_discovered, verified, verified_by, verified_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, true, true, $7, NOW())
+       ON CONFLICT (id) DO UPDATE SET
+         name = EXCLUDED.name,
+         issuer = EXCLUDED.issuer,
+         description = EXCLUDED.description,
+         accepted_network_ids = EXCLUDED.accepted_network_ids,
+         category = EXCLUDED.category,
+         verified = true,
+         verified_by = EXCLUDED.verified_by,
+         verified_at = NOW(),
+         updated_at = NOW()`,
+      [row.brand_id, final.name, final.issuer, final.description, networkIds, final.category, reviewer]
+    );
+
+    // The approved networks become the brand's admin edges; networks dropped in review lose theirs
+    const subject = { type: 'gift_card_brand' as const, id: row.brand_id };
+    await replaceAcceptance(subject, 'admin', networkIds, { client, reportedBy: reviewer });
+    await replaceAcceptance(subject, 'ai', [], { client });
+
+    await client.query(
+      `UPDATE gift_card_brand_proposals
+       SET status = 'approved', proposed = $2, reviewed_by = $3, reviewed_at = NOW(), review_notes = $4
+       WHERE id = $1`,
+      [id, JSON.stringify(final), reviewer, options.notes || null]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return getProposal(id);
+}
+
+export async function rejectProposal(id: string, reviewer: string, notes?: string): Promise<BrandProposal | null> {
+  const result = await pool.query(
+    `UPDATE gift_card_brand_proposals
+     SET status = 'rejected', reviewed_by = $2, reviewed_at = NOW(), review_notes = $3
+     WHERE id = $1 AND status = 'pending'
+     RETURNING id`,
+    [id, reviewer, notes || null]
+  );
+
+  if (result.rows.length === 0) {
+    const existing = await getProposal(id);
+    if (existing) {
+      throw new ProposalNotPendingError(id, existing.status);
+    }
+    return null;
+  }
+
+  return getProposal(id);
+}
+
+function rowToProposal(row: any): BrandProposal {
+  return {
+    id: row.id,
+    brandId: row.brand_id,
+    status: row.status,
+    proposed: row.proposed,
+    diff: row.diff,
+    confidence: row.confidence !== null ? Number(row.confidence) : null,
+    rawResponse: row.raw_response || null,
+    model: row.model || null,
+    cardName: row.card_name,
+    barcode: row.barcode || null,
+    requestedBy: row.requested_by || null,
+    brandVerified: row.brand_verified === true,
+    reviewedBy: row.reviewed_by || null,
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at).toISOString() : null,
+    reviewNotes: row.review_notes || null,
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
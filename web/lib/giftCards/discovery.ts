@@ -0,0 +1,135 @@
+import { generateStructured } from '../ai/client';
+import { registerStubResponse } from '../ai/stubProvider';
+import { JsonSchema } from '../ai/types';
+import { DiscoveredNetwork } from './brandDiff';
+
+/**
+ * AI identification of a gift card brand and the merchant networks that accept it
+ */
+
+export interface GiftCardBrandInfo {
+  brandId: string;
+  name: string;
+  issuer: string;
+  description: string;
+  acceptedNetworks: DiscoveredNetwork[];
+  category: string;
+  confidence: number;
+}
+
+export interface BrandDiscovery {
+  info: GiftCardBrandInfo;
+  rawResponse: string;
+  model: string;
+}
+
+const TOOL_NAME = 'record_gift_card_brand';
+
+const BRAND_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['identified'],
+  properties: {
+    identified: { type: 'boolean', description: 'false if this is not a real gift card brand you recognize' },
+    brandId: { type: 'string', description: 'kebab-case brand id, e.g. "darden-gift-card"' },
+    name: { type: 'string', description: 'Official brand name' },
+    issuer: { type: 'string', description: 'Company that issues the gift card' },
+    description: { type: 'string', description: 'Brief description of the gift card program' },
+    category: { type: 'string', enum: ['restaurant', 'retail', 'entertainment', 'multi-purpose'] },
+    acceptedNetworks: {
+      type: 'array',
+      description: 'Every merchant chain that accepts this gift card',
+      items: {
+        type: 'object',
+        required: ['networkId', 'networkName'],
+        properties: {
+          networkId: { type: 'string', description: 'kebab-case, e.g. "olive-garden"' },
+          networkName: { type: 'string' },
+          category: { type: 'string', enum: ['restaurant', 'retail', 'grocery', 'entertainment', 'other'] }
+        }
+      }
+    },
+    confidence: {
+      type: 'number',
+      minimum: 0,
+      maximum: 1,
+      description: 'How sure you are of the brand and the merchants that accept it'
+    }
+  }
+};
+
+// Every field but `identified` is required once the brand is identified
+const IDENTIFIED_FIELDS: Array<keyof GiftCardBrandInfo> = ['brandId', 'name', 'issuer', 'category', 'acceptedNetworks', 'confidence'];
+
+// Without an API key: the card name is the brand, accepted nowhere yet
+registerStubResponse(TOOL_NAME, call => {
+  const cardName = (call.messages[0].content.match(/^Gift Card Name: (.*)$/m) || [])[1] || 'Unknown';
+  return {
+    identified: true,
+    brandId: toKebabCase(cardName),
+    name: cardName,
+    issuer: cardName,
+    description: '',
+    category: 'retail',
+    acceptedNetworks: [],
+    confidence: 0.1
+  };
+});
+
+export async function discoverGiftCardBrand(
+  cardName: string,
+  barcode?: string,
+  metadata?: Record<string, string>
+): Promise<BrandDiscovery | null> {
+  const prompt = `You are a gift card expert. Analyze the following gift card and provide detailed information about it.
+
+Gift Card Name: ${cardName}
+${barcode ? `Barcode: ${barcode}` : ''}
+${metadata ? `Additional Info: ${JSON.stringify(metadata)}` : ''}
+
+Please identify:
+1. The exact brand name of this gift card
+2. The company that issues this gift card
+3. ALL merchants/restaurant chains that accept this gift card (be comprehensive - many gift cards work at multiple locations)
+4. A brief description of the gift card program
+5. The category (restaurant, retail, entertainment, multi-purpose)
+
+For example:
+- A "Red Lobster Gift Card" is issued by Darden Restaurants and works at Red Lobster, Olive Garden, LongHorn Steakhouse, Bahama Breeze, Seasons 52, Eddie V's, and The Capital Grille
+- A "Target GiftCard" only works at Target stores
+- A "Visa Gift Card" works at any merchant that accepts Visa
+
+Record your answer with the ${TOOL_NAME} tool. If you cannot identify this as a real gift card brand, set identified to false.`;
+
+  const response = await generateStructured<Partial<GiftCardBrandInfo> & { identified: boolean }>({
+    toolName: TOOL_NAME,
+    description: 'Record the identified gift card brand and the merchant networks that accept it',
+    schema: BRAND_SCHEMA,
+    prompt,
+    validate: data => data.identified
+      ? IDENTIFIED_FIELDS.filter(field => data[field] === undefined || data[field] === '').map(field => `${field}: is required`)
+      : []
+  });
+
+  const { identified, ...info } = response.data;
+  if (!identified) {
+    return null;
+  }
+
+  return {
+    info: {
+      ...(info as GiftCardBrandInfo),
+      brandId: toKebabCase(info.brandId as string),
+      description: info.description || '',
+      acceptedNetworks: (info.acceptedNetworks || []).map(network => ({
+        ...network,
+        networkId: toKebabCase(network.networkId)
+      }))
+    },
+    rawResponse: response.rawText,
+    model: response.model
+  };
+}
+
+function toKebabCase(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
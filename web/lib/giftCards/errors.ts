@@ -0,0 +1,15 @@
+// Errors thrown when reviewing brand proposals, mapped to 409 by the admin routes
+
+export class ProposalNotPendingError extends Error {
+  constructor(public proposalId: string, public status: string) {
+    super(`Proposal ${proposalId} is already ${status}`);
+    this.name = 'ProposalNotPendingError';
+  }
+}
+
+export class BrandChangedError extends Error {
+  constructor(public brandId: string) {
+    super(`Brand ${brandId} has changed since this proposal was made`);
+    this.name = 'BrandChangedError';
+  }
+}
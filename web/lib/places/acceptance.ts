@@ -0,0 +1,147 @@
+import type { BBox } from './geoIndex';
+
+/**
+ * Network acceptance graph: which networks accept a gift card brand, loyalty
+ * program or membership network. Several sources may assert the same edge; the
+ * most authoritative one in effect wins (admin over user reports over AI, then
+ * the more confident).
+ */
+
+export type AcceptanceSubjectType = 'gift_card_brand' | 'brand' | 'network';
+
+export type AcceptanceSource = 'admin' | 'user_report' | 'ai';
+
+export interface AcceptanceSubject {
+  type: AcceptanceSubjectType;
+  id: string; // gift_card_brands.id, brands.id or networks.id
+}
+
+export interface AcceptanceScope {
+  locationIds?: string[]; // Only these locations of the network
+  region?: BBox; // Only locations inside this area
+  except?: AcceptanceScope[]; // But not these: scoped "not accepted" edges that outrank this one
+}
+
+export interface AcceptanceEdge {
+  id: string;
+  subjectType: AcceptanceSubjectType;
+  subjectId: string;
+  subjectName?: string;
+  networkId: string;
+  accepted: boolean; // false: asserted NOT accepted
+  scope?: AcceptanceScope; // Absent: every location of the network
+  source: AcceptanceSource;
+  confidence: number; // 0-1
+  effectiveFrom?: string; // YYYY-MM-DD, inclusive
+  effectiveTo?: string; // YYYY-MM-DD, inclusive
+  reportedBy?: string;
+  notes?: string;
+  updatedAt: string;
+}
+
+export interface ResolveOptions {
+  at?: Date; // Defaults to now
+  minConfidence?: number;
+}
+
+export const ACCEPTANCE_SUBJECT_TYPES: AcceptanceSubjectType[] = ['gift_card_brand', 'brand', 'network'];
+export const ACCEPTANCE_SOURCES: AcceptanceSource[] = ['admin', 'user_report', 'ai'];
+
+export const DEFAULT_ACCEPTANCE_CONFIDENCE: Record<AcceptanceSource, number> = {
+  admin: 1,
+  user_report: 0.8,
+  ai: 0.6
+};
+
+// Edges below this are not used to tag a user's locations
+export const MIN_ACCEPTANCE_CONFIDENCE = 0.5;
+
+/**
+ * The accepted edges in effect: one winner per subject and network, dropped when
+ * it says "not accepted" or is below minConfidence. A scoped "not accepted" edge
+ * only rules out its own locations or region: when it outranks the winner, its
+ * scope is added to the winner's `scope.except`.
+ */
+export function resolveAcceptance(edges: AcceptanceEdge[], options: ResolveOptions = {}): AcceptanceEdge[] {
+  const day = toDay(options.at || new Date());
+  const minConfidence = options.minConfidence ?? 0;
+  const winners = new Map<string, AcceptanceEdge>();
+  const exclusions = new Map<string, AcceptanceEdge[]>();
+
+  for (const edge of edges) {
+    if (!isEffective(edge, day)) {
+      continue;
+    }
+
+    const key = `${edge.subjectType}:${edge.subjectId}:${edge.networkId}`;
+    if (!edge.accepted && edge.scope) {
+      exclusions.set(key, [...(exclusions.get(key) || []), edge]);
+      continue;
+    }
+
+    const current = winners.get(key);
+    if (!current || outranks(edge, current)) {
+      winners.set(key, edge);
+    }
+  }
+
+  const resolved: AcceptanceEdge[] = [];
+  winners.forEach((edge, key) => {
+    if (!edge.accepted || edge.confidence < minConfidence) {
+      return;
+    }
+
+    const except = (exclusions.get(key) || [])
+      .filter(exclusion => outranks(exclusion, edge))
+      .map(exclusion => exclusion.scope as AcceptanceScope);
+
+    resolved.push(except.length > 0
+      ? { ...edge, scope: { ...edge.scope, except: [...(edge.scope?.except || []), ...except] } }
+      : edge);
+  });
+
+  return resolved;
+}
+
+/**
+ * Whether an edge's scope includes a location. Locations without an id (brand or
+ * provider places) only match scopes that are not limited to specific ids.
+ */
+export function coversLocation(scope: AcceptanceScope | undefined, location: { id?: string; lat: number; lon: number }): boolean {
+  if (!scope) {
+    return true;
+  }
+
+  if (scope.locationIds && (!location.id || !scope.locationIds.includes(location.id))) {
+    return false;
+  }
+
+  if (scope.region) {
+    const { minLat, maxLat, minLon, maxLon } = scope.region;
+    if (location.lat < minLat || location.lat > maxLat || location.lon < minLon || location.lon > maxLon) {
+      return false;
+    }
+  }
+
+  if (scope.except && scope.except.some(excluded => coversLocation(excluded, location))) {
+    return false;
+  }
+
+  return true;
+}
+
+function isEffective(edge: AcceptanceEdge, day: string): boolean {
+  return (!edge.effectiveFrom || edge.effectiveFrom <= day) && (!edge.effectiveTo || edge.effectiveTo >= day);
+}
+
+function outranks(a: AcceptanceEdge, b: AcceptanceEdge): boolean {
+  const bySource = ACCEPTANCE_SOURCES.indexOf(b.source) - ACCEPTANCE_SOURCES.indexOf(a.source);
+  if (bySource !== 0) {
+    return bySource > 0;
+  }
+  return a.confidence !== b.confidence ? a.confidence > b.confidence : a.updatedAt > b.updatedAt;
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,158 @@
+import type { VercelPoolClient } from '@vercel/postgres';
+import { pool } from '../db';
+import { AcceptanceEdge, AcceptanceSource, AcceptanceSubject, DEFAULT_ACCEPTANCE_CONFIDENCE } from './acceptance';
+
+/**
+ * Edges of the network acceptance graph, stored in `network_acceptance`
+ * (see db/migrations/020_network_acceptance.sql). Callers resolve them with
+ * resolveAcceptance.
+ */
+
+const EDGE_COLUMNS = `a.id, a.subject_type, a.subject_id, a.network_id, a.accepted, a.location_ids,
+  a.region_min_lon, a.region_min_lat, a.region_max_lon, a.region_max_lat,
+  a.source, a.confidence, a.reported_by, a.notes,
+  to_char(a.effective_from, 'YYYY-MM-DD') AS effective_from,
+  to_char(a.effective_to, 'YYYY-MM-DD') AS effective_to,
+  a.updated_at`;
+
+/**
+ * Every edge for the given subjects (e.g. the gift card brands and networks of a
+ * user's cards), whatever its date range
+ */
+export async function getAcceptanceForSubjects(subjects: AcceptanceSubject[]): Promise<AcceptanceEdge[]> {
+  if (subjects.length === 0) {
+    return [];
+  }
+
+  const result = await pool.query(
+    `SELECT ${EDGE_COLUMNS}
+     FROM network_acceptance a
+     JOIN unnest($1::text[], $2::text[]) AS s(subject_type, subject_id)
+       ON s.subject_type = a.subject_type AND s.subject_id = a.subject_id`,
+    [subjects.map(s => s.type), subjects.map(s => s.id)]
+  );
+
+  return result.rows.map(rowToEdge);
+}
+
+/**
+ * Every edge into a network, with the subject's display name
+ */
+export async function listAcceptanceForNetwork(networkId: string): Promise<AcceptanceEdge[]> {
+  const result = await pool.query(
+    `SELECT ${EDGE_COLUMNS},
+       COALESCE(g.name, b.display_name, n.name) AS subject_name
+     FROM network_acceptance a
+     LEFT JOIN gift_card_brands g ON a.subject_type = 'gift_card_brand' AND g.id = a.subject_id
+     LEFT JOIN brands b ON a.subject_type = 'brand' AND b.id::text = a.subject_id
+     LEFT JOIN networks n ON a.subject_type = 'network' AND n.id = a.subject_id
+     WHERE a.network_id = $1
+     ORDER BY a.subject_type, a.subject_id, a.source`,
+    [networkId]
+  );
+
+  return result.rows.map(rowToEdge);
+}
+
+/**
+ * Replace one source's edges for a subject with "accepted at every location of
+ * these networks". Edges from other sources are left alone. Pass `client` to run
+ * inside the caller's transaction.
+ */
+export async function replaceAcceptance(
+  subject: AcceptanceSubject,
+  source: AcceptanceSource,
+  networkIds: string[],
+  options: { confidence?: number; reportedBy?: string; client?: VercelPoolClient } = {}
+): Promise<void> {
+  if (options.client) {
+    return writeAcceptance(options.client, subject, source, networkIds, options);
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    await writeAcceptance(client, subject, source, networkIds, options);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function writeAcceptance(
+  client: VercelPoolClient,
+  subject: AcceptanceSubject,
+  source: AcceptanceSource,
+  networkIds: string[],
+  options: { confidence?: number; reportedBy?: string }
+): Promise<void> {
+  await client.query(
+    `DELETE FROM network_acceptance
+     WHERE subject_type = $1 AND subject_id = $2 AND source = $3
+       AND NOT (network_id = ANY($4::text[]))`,
+    [subject.type, subject.id, source, networkIds]
+  );
+
+  if (networkIds.length === 0) {
+    return;
+  }
+
+  await client.query(
+    `INSERT INTO network_acceptance (subject_type, subject_id, network_id, source, confidence, reported_by)
+     SELECT $1, $2, network_id, $3, $5, $6
+     FROM unnest($4::text[]) AS accepted(network_id)
+     ON CONFLICT (subject_type, subject_id, network_id, source) DO UPDATE SET
+       accepted = true,
+       location_ids = NULL,
+       region_min_lon = NULL,
+       region_min_lat = NULL,
+       region_max_lon = NULL,
+       region_max_lat = NULL,
+       confidence = EXCLUDED.confidence,
+       reported_by = EXCLUDED.reported_by,
+       updated_at = NOW()`,
+    [
+      subject.type, subject.id, source, networkIds,
+      options.confidence ?? DEFAULT_ACCEPTANCE_CONFIDENCE[source],
+      options.reportedBy || null
+    ]
+  );
+}
+
+function rowToEdge(row: any): AcceptanceEdge {
+  const hasRegion = row.region_min_lon !== null && row.region_min_lon !== undefined;
+  const scope = row.location_ids || hasRegion
+    ? {
+        locationIds: row.location_ids || undefined,
+        region: hasRegion
+          ? {
+              minLon: Number(row.region_min_lon),
+              minLat: Number(row.region_min_lat),
+              maxLon: Number(row.region_max_lon),
+              maxLat: Number(row.region_max_lat)
+            }
+          : undefined
+      }
+    : undefined;
+
+  return {
+    id: row.id,
+    subjectType: row.subject_type,
+    subjectId: row.subject_id,
+    subjectName: row.subject_name || undefined,
+    networkId: row.network_id,
+    accepted: row.accepted,
+    scope,
+    source: row.source,
+    confidence: Number(row.confidence),
+    effectiveFrom: row.effective_from || undefined,
+    effectiveTo: row.effective_to || undefined,
+    reportedBy: row.reported_by || undefined,
+    notes: row.notes || undefined,
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
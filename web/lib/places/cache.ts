@@ -1,18 +1,92 @@
 import { kv } from '@vercel/kv';
+import { recordCacheEvent, registerCacheNamespace } from '../cacheMetrics';
+import { CachedError, RateLimitedError, fromCachedError, toCachedError } from './errors';
 
-interface CacheOptions {
-  ttlSeconds?: number;
+const DEFAULT_NEGATIVE_TTL = parseInt(process.env.PLACES_NEGATIVE_CACHE_TTL_SECONDS || '300');
+
+export interface CacheFetchOptions<T> {
+  ttlSeconds?: number; // Served fresh for this long
+  staleSeconds?: number; // Then served stale (and refreshed in the background) for this long; defaults to ttlSeconds
+  negativeTtlSeconds?: number; // Empty results and errors are cached this long
+  isEmpty?: (data: T) => boolean; // Defaults to null/undefined or an empty array
+}
+
+// What getOrFetch stores: the value plus when it stops being fresh
+interface CacheEntry<T> {
+  data: T | null;
+  freshUntil: number;
+  negative?: boolean;
+  error?: CachedError | string; // A string in entries written before the error kind was stored
 }
 
 class PlacesCache {
   private inMemoryCache = new Map<string, { data: any; expires: number }>();
   private useVercelKV: boolean;
+  private refreshing = new Map<string, Promise<any>>();
 
   constructor() {
     // Check if Vercel KV is available
     this.useVercelKV = !!process.env.KV_URL || !!process.env.REDIS_URL;
   }
 
+  /**
+   * Keys prefixed with `<name>:v<version>:`; bump the version to drop every entry
+   * a connector wrote before its response format changed
+   */
+  namespace(name: string, version: number): CacheNamespace {
+    registerCacheNamespace(name, `${name}:`);
+    return new CacheNamespace(this, name, version);
+  }
+
+  /**
+   * Read-through with stale-while-revalidate. Fresh entries are returned as is;
+   * stale ones are returned immediately while one background fetch refreshes them.
+   * Empty results and errors are cached for the shorter negative TTL, and a
+   * cached error is rethrown as the class it was thrown as. Our own rate limiting
+   * is never cached; a provider's 429 is, for at most its Retry-After.
+   */
+  async getOrFetch<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    options: CacheFetchOptions<T> = {},
+    metricsNamespace: string = 'places'
+  ): Promise<T> {
+    const entry = await this.get<CacheEntry<T>>(key);
+
+    if (entry && typeof entry.freshUntil === 'number') {
+      if (entry.negative) {
+        recordCacheEvent(metricsNamespace, 'negative');
+        if (typeof entry.error === 'string') {
+          throw new Error(entry.error);
+        }
+        if (entry.error) {
+          const error = fromCachedError(entry.error);
+          if (error instanceof RateLimitedError) {
+            error.retryAfterMs = Math.max(entry.freshUntil - Date.now(), 0);
+          }
+          throw error;
+        }
+        return entry.data as T;
+      }
+
+      if (Date.now() >= entry.freshUntil) {
+        recordCacheEvent(metricsNamespace, 'stale');
+        if (!this.refreshing.has(key)) {
+          this.refresh(key, fetcher, options).catch(error => {
+            console.warn(`Cache refresh failed for ${key}:`, error);
+          });
+        }
+      } else {
+        recordCacheEvent(metricsNamespace, 'hit');
+      }
+
+      return entry.data as T;
+    }
+
+    recordCacheEvent(metricsNamespace, 'miss');
+    return this.refresh(key, fetcher, options);
+  }
+
   async get<T>(key: string): Promise<T | null> {
     try {
       if (this.useVercelKV) {
@@ -64,6 +138,70 @@ class PlacesCache {
     }
   }
 
+  /**
+   * Keys starting with `prefix` (at most `limit`), for admin inspection
+   */
+  async keys(prefix: string, limit: number = 1000): Promise<string[]> {
+    if (!this.useVercelKV) {
+      const now = Date.now();
+      return Array.from(this.inMemoryCache.entries())
+        .filter(([key, value]) => key.startsWith(prefix) && now < value.expires)
+        .map(([key]) => key)
+        .slice(0, limit);
+    }
+
+    const keys: string[] = [];
+    let cursor: string | number = 0;
+    do {
+      const [next, batch]: [string | number, string[]] = await kv.scan(cursor, { match: `${escapeGlob(prefix)}*`, count: 500 });
+      keys.push(...batch);
+      cursor = next;
+    } while (String(cursor) !== '0' && keys.length < limit);
+
+    return keys.slice(0, limit);
+  }
+
+  /**
+   * Raw stored value and remaining TTL (seconds, -1 without expiry) for one key
+   */
+  async inspect(key: string): Promise<{ value: unknown; ttlSeconds: number } | null> {
+    if (!this.useVercelKV) {
+      const cached = this.inMemoryCache.get(key);
+      if (!cached || Date.now() >= cached.expires) {
+        return null;
+      }
+      return { value: cached.data, ttlSeconds: Math.ceil((cached.expires - Date.now()) / 1000) };
+    }
+
+    const value = await kv.get(key);
+    if (value === null) {
+      return null;
+    }
+    return { value, ttlSeconds: await kv.ttl(key) };
+  }
+
+  /**
+   * Delete every key starting with `prefix`; returns how many were removed
+   */
+  async purge(prefix: string): Promise<number> {
+    let removed = 0;
+
+    // Re-scan until nothing is left, in batches so huge namespaces don't load at once
+    while (true) {
+      const keys = await this.keys(prefix, 500);
+      if (keys.length === 0) {
+        return removed;
+      }
+
+      if (this.useVercelKV) {
+        await kv.del(...keys);
+      } else {
+        keys.forEach(key => this.inMemoryCache.delete(key));
+      }
+      removed += keys.length;
+    }
+  }
+
   // Clean up expired entries in in-memory cache (called periodically)
   cleanup(): void {
     if (!this.useVercelKV) {
@@ -75,6 +213,105 @@ class PlacesCache {
       }
     }
   }
+
+  // One fetch per key at a time; concurrent misses share it
+  private refresh<T>(key: string, fetcher: () => Promise<T>, options: CacheFetchOptions<T>): Promise<T> {
+    const pending = this.refreshing.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.fetchAndStore(key, fetcher, options).then(
+      data => {
+        this.refreshing.delete(key);
+        return data;
+      },
+      error => {
+        this.refreshing.delete(key);
+        throw error;
+      }
+    );
+    this.refreshing.set(key, request);
+    return request;
+  }
+
+  private async fetchAndStore<T>(key: string, fetcher: () => Promise<T>, options: CacheFetchOptions<T>): Promise<T> {
+    const ttlSeconds = options.ttlSeconds ?? 86400;
+    const staleSeconds = options.staleSeconds ?? ttlSeconds;
+    const negativeTtlSeconds = Math.min(options.negativeTtlSeconds ?? DEFAULT_NEGATIVE_TTL, ttlSeconds);
+    const isEmpty = options.isEmpty || defaultIsEmpty;
+
+    let data: T;
+    try {
+      data = await fetcher();
+    } catch (error) {
+      // Our own throttling says nothing about the upstream; don't remember it
+      const ownThrottle = error instanceof RateLimitedError && !error.upstream;
+      let errorTtlSeconds = negativeTtlSeconds;
+      if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+        errorTtlSeconds = Math.min(errorTtlSeconds, Math.ceil(error.retryAfterMs / 1000));
+      }
+
+      if (!ownThrottle && errorTtlSeconds > 0) {
+        await this.set<CacheEntry<T>>(
+          key,
+          { data: null, freshUntil: Date.now() + errorTtlSeconds * 1000, negative: true, error: toCachedError(error) },
+          errorTtlSeconds
+        );
+      }
+      throw error;
+    }
+
+    if (isEmpty(data)) {
+      if (negativeTtlSeconds > 0) {
+        await this.set<CacheEntry<T>>(
+          key,
+          { data, freshUntil: Date.now() + negativeTtlSeconds * 1000, negative: true },
+          negativeTtlSeconds
+        );
+      }
+    } else if (ttlSeconds > 0) {
+      await this.set<CacheEntry<T>>(
+        key,
+        { data, freshUntil: Date.now() + ttlSeconds * 1000 },
+        ttlSeconds + staleSeconds
+      );
+    }
+
+    return data;
+  }
+}
+
+export class CacheNamespace {
+  constructor(private cache: PlacesCache, readonly name: string, readonly version: number) {}
+
+  key(key: string): string {
+    return `${this.name}:v${this.version}:${key}`;
+  }
+
+  getOrFetch<T>(key: string, fetcher: () => Promise<T>, options?: CacheFetchOptions<T>): Promise<T> {
+    return this.cache.getOrFetch(this.key(key), fetcher, options, this.name);
+  }
+
+  get<T>(key: string): Promise<T | null> {
+    return this.cache.get<T>(this.key(key));
+  }
+
+  set<T>(key: string, data: T, ttlSeconds?: number): Promise<void> {
+    return this.cache.set(this.key(key), data, ttlSeconds);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.cache.delete(this.key(key));
+  }
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+function defaultIsEmpty(data: unknown): boolean {
+  return data === null || data === undefined || (Array.isArray(data) && data.length === 0);
 }
 
 export const placesCache = new PlacesCache();
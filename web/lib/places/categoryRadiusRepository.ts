@@ -0,0 +1,86 @@
+import { pool } from '../db';
+import { normalizeCategory } from './radius';
+
+/**
+ * Default geofence radius per category, stored in `geofence_category_defaults`
+ * (see db/migrations/019_geofence_radii.sql)
+ */
+
+const RADII_TTL_MS = 5 * 60 * 1000;
+let radiiCache: { data: Map<string, number>; expires: number } | null = null;
+
+export interface CategoryRadius {
+  category: string;
+  radiusMeters: number;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+export const MIN_CATEGORY_RADIUS_METERS = 25;
+export const MAX_CATEGORY_RADIUS_METERS = 5000;
+
+/**
+ * category -> radius for resolveGeofenceRadius. Empty (everything falls through to
+ * the heuristic) if the table can't be read.
+ */
+export async function getCategoryRadii(): Promise<Map<string, number>> {
+  if (radiiCache && Date.now() < radiiCache.expires) {
+    return radiiCache.data;
+  }
+
+  try {
+    const result = await pool.query('SELECT category, radius_meters FROM geofence_category_defaults');
+    const data = new Map<string, number>(result.rows.map(row => [row.category, Number(row.radius_meters)]));
+
+    radiiCache = { data, expires: Date.now() + RADII_TTL_MS };
+    return data;
+  } catch (error) {
+    console.warn('Could not load geofence category defaults:', error);
+    return new Map();
+  }
+}
+
+export async function listCategoryRadii(): Promise<CategoryRadius[]> {
+  const result = await pool.query(
+    `SELECT category, radius_meters, updated_by, updated_at
+     FROM geofence_category_defaults
+     ORDER BY category`
+  );
+
+  return result.rows.map(rowToCategoryRadius);
+}
+
+export async function setCategoryRadius(category: string, radiusMeters: number, updatedBy: string): Promise<CategoryRadius> {
+  const result = await pool.query(
+    `INSERT INTO geofence_category_defaults (category, radius_meters, updated_by)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (category) DO UPDATE SET
+       radius_meters = EXCLUDED.radius_meters,
+       updated_by = EXCLUDED.updated_by,
+       updated_at = NOW()
+     RETURNING category, radius_meters, updated_by, updated_at`,
+    [normalizeCategory(category), Math.round(radiusMeters), updatedBy]
+  );
+
+  radiiCache = null;
+  return rowToCategoryRadius(result.rows[0]);
+}
+
+export async function deleteCategoryRadius(category: string): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM geofence_category_defaults WHERE category = $1',
+    [normalizeCategory(category)]
+  );
+
+  radiiCache = null;
+  return (result.rowCount ?? 0) > 0;
+}
+
+function rowToCategoryRadius(row: any): CategoryRadius {
+  return {
+    category: row.category,
+    radiusMeters: Number(row.radius_meters),
+    updatedBy: row.updated_by || null,
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
@@ -0,0 +1,75 @@
+import { getCuratedLocationById, getCuratedLocationsNearby, getNetworkAliases } from './networkRepository';
+import { registerPlaceProvider } from './providerRegistry';
+import { matchNetworks, textSimilarity, TEXT_MATCH_THRESHOLD } from './relevance';
+import { CuratedLocation, Place, PlaceDetails, SearchOptions } from './types';
+
+export async function searchCurated(query: string, options: SearchOptions = {}): Promise<Place[]> {
+  // For curated search, we look for network matches and return their locations
+  const curatedLocations = options.lat && options.lon
+    ? await getCuratedLocationsNearby(options.lat, options.lon, 50) // Get nearby curated locations
+    : [];
+
+  if (!query.trim()) {
+    return curatedLocations.map(curatedLocationToPlace);
+  }
+
+  // Fuzzy match against network names and aliases ("wholefoods", "Costco Whse")
+  const matchedNetworkIds = new Set(matchNetworks(query, await getNetworkAliases()).map(n => n.id));
+
+  return curatedLocations
+    .filter(loc =>
+      matchedNetworkIds.has(loc.network_id) ||
+      (!!loc.notes && textSimilarity(query, loc.notes) >= TEXT_MATCH_THRESHOLD)
+    )
+    .map(curatedLocationToPlace);
+}
+
+export async function nearbyCurated(lat: number, lon: number, options: SearchOptions = {}): Promise<Place[]> {
+  const locations = await getCuratedLocationsNearby(lat, lon, options.limit || 50);
+  return locations.map(curatedLocationToPlace);
+}
+
+/**
+ * Look up a `curated:<locationId>` id in the locations table
+ */
+export async function getCuratedDetails(placeId: string): Promise<PlaceDetails | null> {
+  if (!placeId.startsWith('curated:')) {
+    return null;
+  }
+
+  const location = await getCuratedLocationById(placeId.slice('curated:'.length));
+
+  if (!location) {
+    return null;
+  }
+
+  return {
+    ...curatedLocationToPlace(location),
+    networkId: location.network_id,
+    radiusMeters: location.radius_meters
+  };
+}
+
+export function curatedLocationToPlace(loc: CuratedLocation): Place {
+  return {
+    id: `curated:${loc.id}`,
+    name: loc.network_name,
+    address: loc.notes,
+    lat: loc.lat,
+    lon: loc.lon,
+    categories: [loc.network_id],
+    dataSource: 'curated',
+    networkGuessScore: 1.0 // Curated data is authoritative
+  };
+}
+
+registerPlaceProvider({
+  id: 'curated',
+  capabilities: ['textSearch', 'nearby', 'details'],
+  cacheTtlSeconds: 3600,
+  priority: 0,
+  defaultEnabled: true,
+  search: searchCurated,
+  nearby: nearbyCurated,
+  getDetails: getCuratedDetails
+});
@@ -0,0 +1,23 @@
+import { placesCache } from './cache';
+import { getPlaceProvider } from './providers';
+import { PlaceDetails } from './types';
+
+const detailsCache = placesCache.namespace('place:details', 1);
+
+/**
+ * Resolve a prefixed place id ("nominatim:123", "foursquare:4b0...", "curated:costco:37.7:-122.4")
+ * to normalized details via the provider registered under that prefix.
+ */
+export async function getPlaceDetails(placeId: string): Promise<PlaceDetails | null> {
+  const providerId = placeId.split(':')[0];
+  const provider = getPlaceProvider(providerId);
+
+  if (!provider?.getDetails || !provider.capabilities.includes('details')) {
+    return null;
+  }
+
+  // Unknown ids are remembered for the negative TTL so they don't hit the upstream each time
+  return detailsCache.getOrFetch(placeId, () => provider.getDetails!(placeId), {
+    ttlSeconds: provider.cacheTtlSeconds
+  });
+}
@@ -0,0 +1,47 @@
+// Errors thrown by provider queries so searchPlaces can report per-provider status
+
+export class RateLimitedError extends Error {
+  // `upstream` when the provider itself answered 429, rather than our own limiter
+  constructor(public providerId: string, public retryAfterMs?: number, public upstream: boolean = false) {
+    super(`${providerId} rate limit exceeded`);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class ProviderTimeoutError extends Error {
+  constructor(public providerId: string, public timeoutMs: number) {
+    super(`${providerId} did not respond within ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+// How getOrFetch remembers a failed fetch, so a cache hit can rethrow the same kind of error
+export interface CachedError {
+  name: string;
+  message: string;
+  providerId?: string;
+  retryAfterMs?: number;
+  timeoutMs?: number;
+}
+
+export function toCachedError(error: unknown): CachedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: 'Unknown error' };
+  }
+
+  const { providerId, retryAfterMs, timeoutMs } = error as Partial<RateLimitedError & ProviderTimeoutError>;
+  return { name: error.name, message: error.message, providerId, retryAfterMs, timeoutMs };
+}
+
+export function fromCachedError(cached: CachedError): Error {
+  if (cached.name === 'RateLimitedError' && cached.providerId) {
+    return new RateLimitedError(cached.providerId, cached.retryAfterMs, true);
+  }
+  if (cached.name === 'ProviderTimeoutError' && cached.providerId && cached.timeoutMs !== undefined) {
+    return new ProviderTimeoutError(cached.providerId, cached.timeoutMs);
+  }
+
+  const error = new Error(cached.message);
+  error.name = cached.name;
+  return error;
+}
@@ -1,45 +1,110 @@
 import axios from 'axios';
 import { placesCache } from './cache';
 import { foursquareLimiter } from './rateLimiter';
-import { Place, SearchOptions } from './types';
+import { registerPlaceProvider } from './providerRegistry';
+import { RateLimitedError } from './errors';
+import { Place, PlaceDetails, SearchOptions } from './types';
 
 const API_KEY = process.env.FOURSQUARE_API_KEY;
 const CACHE_TTL = parseInt(process.env.PLACES_CACHE_TTL_SECONDS || '86400');
 
+// Bump to drop cached results after changing how responses are normalized
+const cache = placesCache.namespace('foursquare', 1);
+
 export async function searchFoursquare(query: string, options: SearchOptions = {}): Promise<Place[]> {
+  try {
+    return await queryFoursquare(query, options);
+  } catch (error) {
+    if (error instanceof RateLimitedError) {
+      console.warn('Foursquare rate limit exceeded, returning empty results');
+    } else {
+      console.error('Foursquare search error:', error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Same as searchFoursquare, but throws RateLimitedError and upstream errors so
+ * searchPlaces can report provider status
+ */
+export async function queryFoursquare(query: string, options: SearchOptions = {}): Promise<Place[]> {
   if (!API_KEY) {
     return []; // Skip if no API key
   }
 
   const { lat, lon, limit = 10 } = options;
-  const cacheKey = `foursquare:search:${query}:${lat || ''}:${lon || ''}:${limit}`;
+  const cacheKey = `search:${query}:${lat || ''}:${lon || ''}:${limit}`;
 
-  // Check cache first
-  const cached = await placesCache.get<Place[]>(cacheKey);
-  if (cached) {
-    return cached;
-  }
+  return cache.getOrFetch(cacheKey, () => fetchFoursquareSearch(API_KEY, query, options), { ttlSeconds: CACHE_TTL });
+}
+
+async function fetchFoursquareSearch(apiKey: string, query: string, options: SearchOptions): Promise<Place[]> {
+  const { lat, lon, limit = 10 } = options;
 
   // Check rate limit
-  if (!foursquareLimiter.isAllowed(API_KEY)) {
-    console.warn('Foursquare rate limit exceeded, returning empty results');
-    return [];
+  const rateLimit = await foursquareLimiter.consume(apiKey);
+  if (!rateLimit.allowed) {
+    throw new RateLimitedError('foursquare', rateLimit.retryAfterMs);
   }
 
-  try {
-    const params: any = {
-      query,
-      limit,
-      fields: 'fsq_id,name,location,categories,chains'
-    };
+  const params: any = {
+    query,
+    limit,
+    fields: 'fsq_id,name,location,categories,chains'
+  };
 
-    if (lat && lon) {
-      params.ll = `${lat},${lon}`;
-      params.radius = 10000; // 10km radius
-    }
+  if (lat && lon) {
+    params.ll = `${lat},${lon}`;
+    params.radius = 10000; // 10km radius
+  }
+
+  const response = await axios.get('https://api.foursquare.com/v3/places/search', {
+    params,
+    headers: {
+      'Authorization': apiKey,
+      'Accept': 'application/json'
+    },
+    timeout: 10000
+  });
+
+  const results: Place[] = response.data.results.map((item: any) => ({
+    id: `foursquare:${item.fsq_id}`,
+    name: item.name,
+    address: item.location?.formatted_address || item.location?.address,
+    lat: item.location?.lat,
+    lon: item.location?.lng,
+    categories: item.categories?.map((cat: any) => cat.name) || [],
+    dataSource: 'foursquare',
+    networkGuessScore: calculateNetworkGuessScore(item, query),
+    raw: item
+  })).filter((place: Place) => place.lat && place.lon); // Filter out results without coordinates
+
+  return results;
+}
 
-    const response = await axios.get('https://api.foursquare.com/v3/places/search', {
-      params,
+export async function getFoursquareDetails(placeId: string): Promise<PlaceDetails | null> {
+  if (!API_KEY) {
+    return null; // Skip if no API key
+  }
+
+  const fsqId = placeId.replace(/^foursquare:/, '');
+
+  if (!fsqId) {
+    return null;
+  }
+
+  // Check rate limit
+  const rateLimit = await foursquareLimiter.consume(API_KEY);
+  if (!rateLimit.allowed) {
+    throw new RateLimitedError('foursquare', rateLimit.retryAfterMs);
+  }
+
+  try {
+    const response = await axios.get(`https://api.foursquare.com/v3/places/${encodeURIComponent(fsqId)}`, {
+      params: {
+        fields: 'fsq_id,name,location,geocodes,categories,chains,tel,website,hours'
+      },
       headers: {
         'Authorization': API_KEY,
         'Accept': 'application/json'
@@ -47,25 +112,35 @@ export async function searchFoursquare(query: string, options: SearchOptions = {
       timeout: 10000
     });
 
-    const results: Place[] = response.data.results.map((item: any) => ({
+    const item = response.data;
+    const lat = item.geocodes?.main?.latitude ?? item.location?.lat;
+    const lon = item.geocodes?.main?.longitude ?? item.location?.lng;
+
+    if (typeof lat !== 'number' || typeof lon !== 'number') {
+      return null;
+    }
+
+    return {
       id: `foursquare:${item.fsq_id}`,
       name: item.name,
       address: item.location?.formatted_address || item.location?.address,
-      lat: item.location?.lat,
-      lon: item.location?.lng,
+      lat,
+      lon,
       categories: item.categories?.map((cat: any) => cat.name) || [],
-      dataSource: 'foursquare' as const,
-      networkGuessScore: calculateNetworkGuessScore(item, query),
+      dataSource: 'foursquare',
+      phone: item.tel,
+      website: item.website,
+      hours: item.hours?.display
+        ? {
+            display: item.hours.display,
+            regular: item.hours.regular?.map((h: any) => ({ day: h.day, open: h.open, close: h.close }))
+          }
+        : undefined,
       raw: item
-    })).filter((place: Place) => place.lat && place.lon); // Filter out results without coordinates
-
-    // Cache results
-    await placesCache.set(cacheKey, results, CACHE_TTL);
-
-    return results;
+    };
   } catch (error) {
-    console.error('Foursquare search error:', error);
-    return [];
+    console.error('Foursquare details error:', error);
+    return null;
   }
 }
 
@@ -96,3 +171,14 @@ function calculateNetworkGuessScore(item: any, query: string): number {
 
   return Math.min(score, 1.0);
 }
+
+registerPlaceProvider({
+  id: 'foursquare',
+  capabilities: ['textSearch', 'details'],
+  rateLimiter: foursquareLimiter,
+  cacheTtlSeconds: CACHE_TTL,
+  priority: 2,
+  defaultEnabled: true,
+  search: queryFoursquare,
+  getDetails: getFoursquareDetails
+});
@@ -0,0 +1,64 @@
+import { GeoHash } from 'geohash';
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface BBox {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+}
+
+export function geohashToBBox(geohash: string): BBox {
+  const { latitude, longitude } = GeoHash.decodeGeoHash(geohash.toLowerCase());
+  return {
+    minLat: latitude[0],
+    maxLat: latitude[1],
+    minLon: longitude[0],
+    maxLon: longitude[1]
+  };
+}
+
+export function isValidGeohash(geohash: string): boolean {
+  return /^[0-9bcdefghjkmnpqrstuvwxyz]{1,12}$/.test(geohash.toLowerCase());
+}
+
+export function radiusToBBox(lat: number, lon: number, radiusMeters: number): BBox {
+  const dLat = radiusMeters / METERS_PER_DEGREE_LAT;
+  const cosLat = Math.cos(lat * Math.PI / 180);
+  const dLon = cosLat > 0.01 ? radiusMeters / (METERS_PER_DEGREE_LAT * cosLat) : 360;
+
+  return {
+    minLat: Math.max(-90, lat - dLat),
+    maxLat: Math.min(90, lat + dLat),
+    minLon: dLon >= 180 ? -180 : wrapLon(lon - dLon),
+    maxLon: dLon >= 180 ? 180 : wrapLon(lon + dLon)
+  };
+}
+
+function wrapLon(lon: number): number {
+  if (lon > 180) return lon - 360;
+  if (lon < -180) return lon + 360;
+  return lon;
+}
+
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (d: number) => d * Math.PI / 180;
+  const R = 6371000; // Earth radius in meters
+
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+
+  const a =
+    Math.sin(dLat/2) * Math.sin(dLat/2) +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
+    Math.sin(dLon/2) * Math.sin(dLon/2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  return R * c;
+}
@@ -0,0 +1,8 @@
+declare module 'geohash' {
+  export const GeoHash: {
+    // Always returns a 12-character hash
+    encodeGeoHash(latitude: number, longitude: number): string;
+    // [min, max, center] for each axis
+    decodeGeoHash(geohash: string): { latitude: [number, number, number]; longitude: [number, number, number] };
+  };
+}
@@ -0,0 +1,57 @@
+import { buildCuratedLocation, ParsedLocations } from './csvImporter';
+import { CuratedLocation } from './types';
+
+/**
+ * Parse a GeoJSON FeatureCollection of Point features into curated locations.
+ * Feature properties use the same names as the CSV headers (name, address,
+ * notes, radius / radius_meters, store_id / ref); coordinates come from the
+ * geometry and a feature `id` is used as the ref when no property is set.
+ */
+export function parseLocationsGeoJSON(input: string | object, networkId: string, networkName: string): ParsedLocations {
+  let collection: any;
+
+  try {
+    collection = typeof input === 'string' ? JSON.parse(input) : input;
+  } catch (error) {
+    return { locations: [], errors: ['Invalid GeoJSON: could not parse JSON'] };
+  }
+
+  if (!collection || collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    return { locations: [], errors: ['Invalid GeoJSON: expected a FeatureCollection'] };
+  }
+
+  const errors: string[] = [];
+  const locations: CuratedLocation[] = [];
+
+  collection.features.forEach((feature: any, i: number) => {
+    const label = `Feature ${i + 1}`;
+    const geometry = feature?.geometry;
+
+    if (!geometry || geometry.type !== 'Point' || !Array.isArray(geometry.coordinates)) {
+      errors.push(`${label}: Geometry must be a Point`);
+      return;
+    }
+
+    // GeoJSON positions are [lon, lat]
+    const [lon, lat] = geometry.coordinates;
+    const properties = lowerCaseKeys(feature.properties || {});
+    const ref = properties.ref ?? feature.id;
+    const result = buildCuratedLocation({ ...properties, ref, lat, lon }, label, networkId, networkName);
+
+    if (result.error) {
+      errors.push(result.error);
+    } else if (result.location) {
+      locations.push(result.location);
+    }
+  });
+
+  return { locations, errors };
+}
+
+function lowerCaseKeys(properties: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const key of Object.keys(properties)) {
+    result[key.toLowerCase().trim()] = properties[key];
+  }
+  return result;
+}
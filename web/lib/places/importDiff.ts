@@ -0,0 +1,86 @@
+import { CuratedLocation, LocationImportDiff } from './types';
+
+/**
+ * Compare an import against a network's current locations by location id
+ */
+export function diffLocations(existing: CuratedLocation[], incoming: CuratedLocation[]): LocationImportDiff {
+  const current = new Map(existing.map(loc => [loc.id, loc]));
+  const imported = uniqueLocations(incoming);
+  const diff: LocationImportDiff = { added: [], updated: [], removed: [], unchanged: 0 };
+
+  for (const loc of imported) {
+    const before = current.get(loc.id);
+    if (!before) {
+      diff.added.push(loc);
+    } else if (hasChanged(before, loc)) {
+      diff.updated.push({ before, after: loc });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  const importedIds = new Set(imported.map(loc => loc.id));
+  diff.removed = existing.filter(loc => !importedIds.has(loc.id));
+  return diff;
+}
+
+/**
+ * Drop repeated location ids, keeping the last row for each (one upsert per id)
+ */
+export function uniqueLocations(locations: CuratedLocation[]): CuratedLocation[] {
+  const byId = new Map<string, CuratedLocation>();
+  for (const loc of locations) {
+    byId.delete(loc.id);
+    byId.set(loc.id, loc);
+  }
+  return Array.from(byId.values());
+}
+
+function hasChanged(before: CuratedLocation, after: CuratedLocation): boolean {
+  return before.lat !== after.lat ||
+    (before.external_key || '') !== (after.external_key || '') ||
+    before.lon !== after.lon ||
+    before.radius_override !== after.radius_override ||
+    (before.notes || '') !== (after.notes || '') ||
+    before.network_name !== after.network_name;
+}
+
+/**
+ * Point incoming locations at the ids they already have: a matching external key,
+ * or (for rows imported before they had a key) the same coordinates. Keeps
+ * geofence ids stable when a store moves or a network gains store numbers.
+ * `existing` should include tombstoned rows so revived locations keep their id.
+ */
+export function reconcileLocationIds(existing: CuratedLocation[], incoming: CuratedLocation[]): CuratedLocation[] {
+  const ids = new Set(existing.map(loc => loc.id));
+  const byKey = new Map<string, string>();
+  const unkeyedByCoords = new Map<string, string>();
+
+  for (const loc of existing) {
+    if (loc.external_key) {
+      byKey.set(loc.external_key, loc.id);
+    } else {
+      unkeyedByCoords.set(`${loc.lat},${loc.lon}`, loc.id);
+    }
+  }
+
+  return incoming.map(loc => {
+    if (ids.has(loc.id) || !loc.external_key) {
+      return loc;
+    }
+
+    const keyedId = byKey.get(loc.external_key);
+    if (keyedId) {
+      return { ...loc, id: keyedId };
+    }
+
+    const coordsKey = `${loc.lat},${loc.lon}`;
+    const legacyId = unkeyedByCoords.get(coordsKey);
+    if (legacyId) {
+      unkeyedByCoords.delete(coordsKey); // One keyed row per legacy location
+      return { ...loc, id: legacyId };
+    }
+
+    return loc;
+  });
+}
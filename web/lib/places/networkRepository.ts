@@ -0,0 +1,313 @@
+import { pool } from '../db';
+import { getCategoryRadii } from './categoryRadiusRepository';
+import { parseLocationsCSV } from './csvImporter';
+import { BBox } from './geoIndex';
+import { diffLocations, reconcileLocationIds, uniqueLocations } from './importDiff';
+import { resolveGeofenceRadius } from './radius';
+import { CuratedLocation, Network, NetworkAliases } from './types';
+
+/**
+ * Networks and their curated locations, stored in the Postgres `networks` and
+ * `locations` tables (see db/migrations/017_curated_networks.sql)
+ */
+
+const ALIASES_TTL_MS = 5 * 60 * 1000;
+let aliasesCache: { data: NetworkAliases[]; expires: number } | null = null;
+
+const LOCATION_COLUMNS = `
+  l.id,
+  l.network_id,
+  n.name AS network_name,
+  ST_Y(l.location::geometry) AS lat,
+  ST_X(l.location::geometry) AS lon,
+  l.radius_meters,
+  n.default_radius_meters AS network_radius_meters,
+  n.category AS network_category,
+  COALESCE(l.notes, l.name) AS notes,
+  l.external_key,
+  l.removed_at
+`;
+
+/**
+ * Replace a network's locations from CSV, like the admin import: locations
+ * missing from the CSV are tombstoned, unless some rows were invalid
+ */
+export async function importCSV(
+  csvContent: string,
+  networkId: string,
+  networkName: string,
+  options: { category?: string; aliases?: string[] } = {}
+): Promise<{ success: boolean; imported: number; errors: string[] }> {
+  try {
+    const { locations, errors } = parseLocationsCSV(csvContent, networkId, networkName);
+
+    if (locations.length === 0) {
+      return { success: false, imported: 0, errors: errors.length > 0 ? errors : ['No valid locations found in CSV'] };
+    }
+
+    const existing = await getNetworkById(networkId, { includeRemoved: true });
+    const reconciled = reconcileLocationIds(existing?.locations || [], locations);
+    const active = (existing?.locations || []).filter(loc => !loc.removed_at);
+
+    // Rows that failed to parse would otherwise look removed
+    const removed = errors.length > 0 ? [] : diffLocations(active, reconciled).removed;
+
+    await saveNetwork(
+      {
+        id: networkId,
+        name: networkName,
+        aliases: options.aliases,
+        category: options.category,
+        locations: reconciled
+      },
+      { tombstoneLocationIds: removed.map(loc => loc.id) }
+    );
+
+    return { success: true, imported: locations.length, errors };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, imported: 0, errors: [`Import failed: ${message}`] };
+  }
+}
+
+/**
+ * Upsert a network and merge its locations (same location id overwrites, reviving
+ * tombstones) in one transaction. Without a category the network keeps its
+ * current one. An undefined default_radius_meters keeps the network's current
+ * one; null clears it back to the category default. `tombstoneLocationIds` are marked removed in the
+ * same transaction; their rows stay so ids are never reused for another store.
+ */
+export async function saveNetwork(network: Network, options: { tombstoneLocationIds?: string[] } = {}): Promise<void> {
+  const locations = uniqueLocations(network.locations);
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      `INSERT INTO networks (id, name, canonical_names, category, default_radius_meters)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (id) DO UPDATE SET
+         name = EXCLUDED.name,
+         canonical_names = ARRAY(
+           SELECT DISTINCT unnest(COALESCE(networks.canonical_names, '{}') || EXCLUDED.canonical_names)
+         ),
+         category = COALESCE($7, networks.category),
+         default_radius_meters = CASE WHEN $6 THEN EXCLUDED.default_radius_meters ELSE networks.default_radius_meters END,
+         updated_at = NOW()`,
+      [
+        network.id,
+        network.name,
+        [network.name, ...(network.aliases || [])],
+        network.category || 'other',
+        network.default_radius_meters ? Math.round(network.default_radius_meters) : null,
+        network.default_radius_meters !== undefined,
+        network.category || null
+      ]
+    );
+
+    if (locations.length > 0) {
+      await client.query(
+        `INSERT INTO locations (id, network_id, name, location, radius_meters, notes, external_key)
+         SELECT
+           t.id,
+           $1,
+           COALESCE(NULLIF(t.notes, ''), $2),
+           ST_SetSRID(ST_MakePoint(t.lon, t.lat), 4326)::geography,
+           ROUND(t.radius)::int,
+           t.notes,
+           NULLIF(t.external_key, '')
+         FROM unnest($3::text[], $4::float8[], $5::float8[], $6::float8[], $7::text[], $8::text[])
+           AS t(id, lat, lon, radius, notes, external_key)
+         ON CONFLICT (id) DO UPDATE SET
+           name = EXCLUDED.name,
+           location = EXCLUDED.location,
+           radius_meters = EXCLUDED.radius_meters,
+           notes = EXCLUDED.notes,
+           external_key = EXCLUDED.external_key,
+           removed_at = NULL,
+           updated_at = NOW()`,
+        [
+          network.id,
+          network.name,
+          locations.map(l => l.id),
+          locations.map(l => l.lat),
+          locations.map(l => l.lon),
+          locations.map(l => l.radius_override ?? null),
+          locations.map(l => l.notes || ''),
+          locations.map(l => l.external_key || '')
+        ]
+      );
+    }
+
+    if (options.tombstoneLocationIds && options.tombstoneLocationIds.length > 0) {
+      await client.query(
+        `UPDATE locations SET removed_at = NOW(), updated_at = NOW()
+         WHERE network_id = $1 AND id = ANY($2) AND removed_at IS NULL`,
+        [network.id, options.tombstoneLocationIds]
+      );
+    }
+
+    await client.query('COMMIT');
+    aliasesCache = null;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getNetworkById(
+  networkId: string,
+  options: { includeRemoved?: boolean } = {}
+): Promise<Network | null> {
+  const networkResult = await pool.query(
+    'SELECT id, name, canonical_names, category, default_radius_meters FROM networks WHERE id = $1',
+    [networkId]
+  );
+
+  if (networkResult.rows.length === 0) {
+    return null;
+  }
+
+  const row = networkResult.rows[0];
+  const locationsResult = await pool.query(
+    `SELECT ${LOCATION_COLUMNS}
+     FROM locations l
+     JOIN networks n ON n.id = l.network_id
+     WHERE l.network_id = $1
+       AND ($2::boolean OR l.removed_at IS NULL)
+     ORDER BY l.id`,
+    [networkId, options.includeRemoved === true]
+  );
+
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: row.canonical_names || [],
+    category: row.category,
+    default_radius_meters: row.default_radius_meters ?? undefined,
+    locations: locationsResult.rows.map(rowToLocation(await getCategoryRadii()))
+  };
+}
+
+export async function getCuratedLocationById(locationId: string): Promise<CuratedLocation | null> {
+  const result = await pool.query(
+    `SELECT ${LOCATION_COLUMNS}
+     FROM locations l
+     JOIN networks n ON n.id = l.network_id
+     WHERE l.id = $1 AND l.removed_at IS NULL`,
+    [locationId]
+  );
+
+  return result.rows.length > 0 ? rowToLocation(await getCategoryRadii())(result.rows[0]) : null;
+}
+
+/**
+ * Every network's display name, id and canonical names, for fuzzy matching
+ */
+export async function getNetworkAliases(): Promise<NetworkAliases[]> {
+  if (aliasesCache && Date.now() < aliasesCache.expires) {
+    return aliasesCache.data;
+  }
+
+  const result = await pool.query('SELECT id, name, canonical_names FROM networks');
+  const data = result.rows.map(row => ({
+    id: row.id,
+    names: [row.name, row.id.replace(/[-_]/g, ' '), ...(row.canonical_names || [])]
+  }));
+
+  aliasesCache = { data, expires: Date.now() + ALIASES_TTL_MS };
+  return data;
+}
+
+/**
+ * k nearest curated locations (KNN over the GIST index), nearest first
+ */
+export async function getCuratedLocationsNearby(
+  lat: number,
+  lon: number,
+  limit: number = 20,
+  networkId?: string
+): Promise<Array<CuratedLocation & { distance: number }>> {
+  const result = await pool.query(
+    `SELECT ${LOCATION_COLUMNS},
+       ST_Distance(l.location, ST_SetSRID(ST_MakePoint($2, $1), 4326)::geography) AS distance
+     FROM locations l
+     JOIN networks n ON n.id = l.network_id
+     WHERE l.removed_at IS NULL
+       AND ($4::text IS NULL OR l.network_id = $4)
+     ORDER BY l.location <-> ST_SetSRID(ST_MakePoint($2, $1), 4326)::geography
+     LIMIT $3`,
+    [lat, lon, limit, networkId || null]
+  );
+
+  const toLocation = rowToLocation(await getCategoryRadii());
+  return result.rows.map(row => ({ ...toLocation(row), distance: parseFloat(row.distance) }));
+}
+
+export async function getCuratedLocationsWithinRadius(
+  lat: number,
+  lon: number,
+  radiusMeters: number,
+  networkId?: string
+): Promise<Array<CuratedLocation & { distance: number }>> {
+  const result = await pool.query(
+    `SELECT ${LOCATION_COLUMNS},
+       ST_Distance(l.location, ST_SetSRID(ST_MakePoint($2, $1), 4326)::geography) AS distance
+     FROM locations l
+     JOIN networks n ON n.id = l.network_id
+     WHERE ST_DWithin(l.location, ST_SetSRID(ST_MakePoint($2, $1), 4326)::geography, $3)
+       AND l.removed_at IS NULL
+       AND ($4::text IS NULL OR l.network_id = $4)
+     ORDER BY distance`,
+    [lat, lon, radiusMeters, networkId || null]
+  );
+
+  const toLocation = rowToLocation(await getCategoryRadii());
+  return result.rows.map(row => ({ ...toLocation(row), distance: parseFloat(row.distance) }));
+}
+
+export async function getCuratedLocationsInBBox(bbox: BBox, networkId?: string): Promise<CuratedLocation[]> {
+  const result = await pool.query(
+    `SELECT ${LOCATION_COLUMNS}
+     FROM locations l
+     JOIN networks n ON n.id = l.network_id
+     WHERE l.location && ST_MakeEnvelope($1, $2, $3, $4, 4326)::geography
+       AND l.removed_at IS NULL
+       AND ($5::text IS NULL OR l.network_id = $5)`,
+    [bbox.minLon, bbox.minLat, bbox.maxLon, bbox.maxLat, networkId || null]
+  );
+
+  return result.rows.map(rowToLocation(await getCategoryRadii()));
+}
+
+// Resolves each row's geofence radius against the category defaults
+function rowToLocation(categoryRadii: Map<string, number>): (row: any) => CuratedLocation {
+  return row => {
+    const override = row.radius_meters == null ? undefined : Number(row.radius_meters);
+    const radius = resolveGeofenceRadius(
+      {
+        locationRadius: override,
+        networkRadius: row.network_radius_meters,
+        categories: [row.network_category, row.network_name]
+      },
+      categoryRadii
+    );
+
+    return {
+      id: row.id,
+      network_id: row.network_id,
+      network_name: row.network_name,
+      lat: parseFloat(row.lat),
+      lon: parseFloat(row.lon),
+      radius_meters: radius.radiusMeters,
+      radius_override: override,
+      radius_source: radius.source,
+      notes: row.notes || undefined,
+      external_key: row.external_key || undefined,
+      removed_at: row.removed_at ? new Date(row.removed_at).toISOString() : undefined
+    };
+  };
+}
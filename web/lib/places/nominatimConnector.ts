@@ -1,83 +1,190 @@
 import axios from 'axios';
 import { placesCache } from './cache';
 import { nominatimLimiter } from './rateLimiter';
-import { Place, SearchOptions } from './types';
+import { registerPlaceProvider } from './providerRegistry';
+import { RateLimitedError } from './errors';
+import { Place, PlaceDetails, SearchOptions } from './types';
 
 const BASE_URL = process.env.NOMINATIM_BASE_URL || 'https://nominatim.openstreetmap.org';
 const USER_AGENT = process.env.NOMINATIM_USER_AGENT || 'CardOnCue/1.0 (hello@cardoncue.com)';
 const CACHE_TTL = parseInt(process.env.PLACES_CACHE_TTL_SECONDS || '86400');
+// How long a throttled lookup may wait for a slot (0 rejects immediately); keep below the provider deadline
+const QUEUE_WAIT_MS = parseInt(process.env.NOMINATIM_QUEUE_WAIT_MS || '2000');
+
+// Bump to drop cached results after changing how responses are normalized
+const cache = placesCache.namespace('nominatim', 1);
 
 export async function searchNominatim(query: string, options: SearchOptions = {}): Promise<Place[]> {
+  try {
+    return await queryNominatim(query, options);
+  } catch (error) {
+    if (error instanceof RateLimitedError) {
+      console.warn('Nominatim rate limit exceeded, returning empty results');
+    } else {
+      console.error('Nominatim search error:', error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Same as searchNominatim, but throws RateLimitedError and upstream errors so
+ * searchPlaces can report provider status
+ */
+export async function queryNominatim(query: string, options: SearchOptions = {}): Promise<Place[]> {
   const { lat, lon, limit = 10 } = options;
-  const cacheKey = `nominatim:search:${query}:${lat || ''}:${lon || ''}:${limit}`;
+  const cacheKey = `search:${query}:${lat || ''}:${lon || ''}:${limit}`;
 
-  // Check cache first
-  const cached = await placesCache.get<Place[]>(cacheKey);
-  if (cached) {
-    return cached;
-  }
+  // Served from cache (stale while revalidating); identical concurrent misses share one upstream call
+  return cache.getOrFetch(cacheKey, () => fetchNominatimSearch(query, options), { ttlSeconds: CACHE_TTL });
+}
 
-  // Check rate limit
-  if (!nominatimLimiter.isAllowed('global')) {
-    console.warn('Nominatim rate limit exceeded, returning empty results');
-    return [];
+async function fetchNominatimSearch(query: string, options: SearchOptions): Promise<Place[]> {
+  const { lat, lon, limit = 10 } = options;
+
+  // Wait for a rate limit slot (bounded by QUEUE_WAIT_MS)
+  await waitForSlot();
+
+  const params: any = {
+    q: query,
+    format: 'jsonv2',
+    limit,
+    addressdetails: 1,
+    extratags: 1,
+    namedetails: 1
+  };
+
+  if (lat && lon) {
+    // Use bounded search around the location
+    const radiusKm = 10; // Search within 10km radius
+    params.bounded = 1;
+    params.viewbox = [
+      lon - (radiusKm / 111.32 / Math.cos(lat * Math.PI / 180)), // ~111km per degree latitude
+      lat - (radiusKm / 111.32),
+      lon + (radiusKm / 111.32 / Math.cos(lat * Math.PI / 180)),
+      lat + (radiusKm / 111.32)
+    ].join(',');
   }
 
-  try {
-    const params: any = {
-      q: query,
-      format: 'jsonv2',
-      limit,
-      addressdetails: 1,
-      extratags: 1,
-      namedetails: 1
-    };
+  const response = await axios.get(`${BASE_URL}/search`, {
+    params,
+    headers: {
+      'User-Agent': USER_AGENT
+    },
+    timeout: 10000 // 10 second timeout
+  });
+
+  const results: Place[] = response.data.map((item: any) => ({
+    id: `nominatim:${item.place_id}`,
+    name: item.display_name.split(',')[0] || item.display_name, // Take first part as name
+    address: item.display_name,
+    lat: parseFloat(item.lat),
+    lon: parseFloat(item.lon),
+    categories: [
+      item.type,
+      ...(item.class ? [item.class] : []),
+      ...(item.extratags?.brand ? [item.extratags.brand] : []),
+      ...(item.extratags?.operator ? [item.extratags.operator] : [])
+    ].filter(Boolean),
+    dataSource: 'nominatim',
+    networkGuessScore: calculateNetworkGuessScore(item, query),
+    raw: item
+  }));
+
+  return results;
+}
 
-    if (lat && lon) {
-      // Use bounded search around the location
-      const radiusKm = 10; // Search within 10km radius
-      params.bounded = 1;
-      params.viewbox = [
-        lon - (radiusKm / 111.32 / Math.cos(lat * Math.PI / 180)), // ~111km per degree latitude
-        lat - (radiusKm / 111.32),
-        lon + (radiusKm / 111.32 / Math.cos(lat * Math.PI / 180)),
-        lat + (radiusKm / 111.32)
-      ].join(',');
-    }
+export async function getNominatimDetails(placeId: string): Promise<PlaceDetails | null> {
+  const nominatimPlaceId = placeId.replace(/^nominatim:/, '');
+
+  if (!/^\d+$/.test(nominatimPlaceId)) {
+    return null;
+  }
 
-    const response = await axios.get(`${BASE_URL}/search`, {
-      params,
+  // Wait for a rate limit slot (bounded by QUEUE_WAIT_MS)
+  await waitForSlot();
+
+  try {
+    const response = await axios.get(`${BASE_URL}/details`, {
+      params: {
+        place_id: nominatimPlaceId,
+        format: 'json',
+        addressdetails: 1,
+        extratags: 1,
+        namedetails: 1
+      },
       headers: {
         'User-Agent': USER_AGENT
       },
-      timeout: 10000 // 10 second timeout
+      timeout: 10000
     });
 
-    const results: Place[] = response.data.map((item: any) => ({
+    const item = response.data;
+    const [lon, lat] = item.centroid?.coordinates || [];
+
+    if (typeof lat !== 'number' || typeof lon !== 'number') {
+      return null;
+    }
+
+    const extratags = item.extratags || {};
+    const openingHours = extratags.opening_hours;
+
+    return {
       id: `nominatim:${item.place_id}`,
-      name: item.display_name.split(',')[0] || item.display_name, // Take first part as name
-      address: item.display_name,
-      lat: parseFloat(item.lat),
-      lon: parseFloat(item.lon),
+      name: item.localname || item.names?.name || item.names?.brand || '',
+      address: formatDetailsAddress(item),
+      lat,
+      lon,
       categories: [
         item.type,
-        ...(item.class ? [item.class] : []),
-        ...(item.extratags?.brand ? [item.extratags.brand] : []),
-        ...(item.extratags?.operator ? [item.extratags.operator] : [])
+        ...(item.category ? [item.category] : []),
+        ...(extratags.brand ? [extratags.brand] : []),
+        ...(extratags.operator ? [extratags.operator] : [])
       ].filter(Boolean),
-      dataSource: 'nominatim' as const,
-      networkGuessScore: calculateNetworkGuessScore(item, query),
+      dataSource: 'nominatim',
+      phone: extratags.phone || extratags['contact:phone'],
+      website: extratags.website || extratags['contact:website'],
+      hours: openingHours ? { display: openingHours } : undefined,
       raw: item
-    }));
+    };
+  } catch (error) {
+    // Only an unknown place is a miss; timeouts, 5xx and throttling propagate so they aren't cached as one
+    const status = (error as any)?.response?.status;
+    if (status === 404) {
+      return null;
+    }
+    if (status === 429) {
+      const retryAfterSeconds = parseInt((error as any).response.headers?.['retry-after'] || '');
+      throw new RateLimitedError('nominatim', isNaN(retryAfterSeconds) ? undefined : retryAfterSeconds * 1000, true);
+    }
+    throw error;
+  }
+}
 
-    // Cache results
-    await placesCache.set(cacheKey, results, CACHE_TTL);
+async function waitForSlot(): Promise<void> {
+  const rateLimit = await nominatimLimiter.acquire('global', QUEUE_WAIT_MS);
+  if (!rateLimit.allowed) {
+    throw new RateLimitedError('nominatim', rateLimit.retryAfterMs);
+  }
+}
 
-    return results;
-  } catch (error) {
-    console.error('Nominatim search error:', error);
-    return [];
+// /details returns the address as a list of ranked parts rather than display_name
+function formatDetailsAddress(item: any): string | undefined {
+  if (Array.isArray(item.address)) {
+    const parts = item.address
+      .filter((part: any) => part.isaddress && part.localname)
+      .map((part: any) => part.localname);
+
+    if (parts.length > 0) {
+      return Array.from(new Set(parts)).join(', ');
+    }
   }
+
+  const tags = item.addresstags || {};
+  const street = [tags.housenumber, tags.street].filter(Boolean).join(' ');
+  const formatted = [street, tags.city, tags.postcode].filter(Boolean).join(', ');
+
+  return formatted || undefined;
 }
 
 function calculateNetworkGuessScore(item: any, query: string): number {
@@ -116,3 +223,14 @@ function calculateNetworkGuessScore(item: any, query: string): number {
 
   return Math.min(score, 1.0);
 }
+
+registerPlaceProvider({
+  id: 'nominatim',
+  capabilities: ['textSearch', 'details'],
+  rateLimiter: nominatimLimiter,
+  cacheTtlSeconds: CACHE_TTL,
+  priority: 1,
+  defaultEnabled: true,
+  search: queryNominatim,
+  getDetails: getNominatimDetails
+});
@@ -0,0 +1,73 @@
+import { PlaceCapability, PlaceProvider, PlaceProviderId } from './types';
+
+// Connectors register themselves here at module load (see providers.ts)
+const registry = new Map<PlaceProviderId, PlaceProvider>();
+
+export function registerPlaceProvider(provider: PlaceProvider): void {
+  if (registry.has(provider.id)) {
+    console.warn(`Place provider "${provider.id}" registered twice, replacing previous registration`);
+  }
+  registry.set(provider.id, provider);
+}
+
+export function unregisterPlaceProvider(id: PlaceProviderId): void {
+  registry.delete(id);
+}
+
+export function getPlaceProvider(id: PlaceProviderId): PlaceProvider | null {
+  return registry.get(id) || null;
+}
+
+export function getPlaceProviders(capability?: PlaceCapability): PlaceProvider[] {
+  const providers = Array.from(registry.values());
+  return capability
+    ? providers.filter(p => p.capabilities.includes(capability))
+    : providers;
+}
+
+/**
+ * Parse a `source` value ('nominatim,curated', ['foursquare'], 'both') into provider ids.
+ * Returns null when the caller wants the default provider set.
+ */
+export function parseSourceList(source?: string | PlaceProviderId[]): PlaceProviderId[] | null {
+  if (!source) {
+    return null;
+  }
+
+  const ids = (Array.isArray(source) ? source : source.split(','))
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (ids.length === 0 || (ids.length === 1 && ids[0] === 'both')) {
+    return null;
+  }
+
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Ids in `source` that no registered provider answers to
+ */
+export function findUnknownProviders(source?: string | PlaceProviderId[]): PlaceProviderId[] {
+  const ids = parseSourceList(source);
+  return ids ? ids.filter(id => !registry.has(id)) : [];
+}
+
+/**
+ * Resolve a `source` value to registered providers that support `capability`.
+ * Unknown ids are skipped; routes should reject them up front via findUnknownProviders.
+ */
+export function resolvePlaceProviders(
+  source: string | PlaceProviderId[] | undefined,
+  capability: PlaceCapability
+): PlaceProvider[] {
+  const ids = parseSourceList(source);
+
+  if (!ids) {
+    return getPlaceProviders(capability).filter(p => p.defaultEnabled);
+  }
+
+  return ids
+    .map(id => registry.get(id))
+    .filter((p): p is PlaceProvider => !!p && p.capabilities.includes(capability));
+}
@@ -0,0 +1,16 @@
+// Importing a connector registers its PlaceProvider. To add a provider (Overpass,
+// a self-hosted Nominatim, ...), create a connector that calls
+// registerPlaceProvider() and import it here.
+import './curatedConnector';
+import './nominatimConnector';
+import './foursquareConnector';
+
+export {
+  registerPlaceProvider,
+  unregisterPlaceProvider,
+  getPlaceProvider,
+  getPlaceProviders,
+  parseSourceList,
+  findUnknownProviders,
+  resolvePlaceProviders
+} from './providerRegistry';
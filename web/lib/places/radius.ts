@@ -0,0 +1,119 @@
+/**
+ * Geofence radius resolution. Precedence: the location's own radius, its
+ * network's (or brand's) default, the default for its category, then a guess
+ * from its categories and name.
+ */
+
+export type RadiusSource = 'location' | 'network' | 'category' | 'heuristic';
+
+export interface RadiusInput {
+  locationRadius?: number | null; // Per-location override
+  networkRadius?: number | null; // Network or brand default
+  categories?: Array<string | null | undefined>; // Most specific first: network/brand category, provider categories, name
+}
+
+export interface ResolvedRadius {
+  radiusMeters: number;
+  source: RadiusSource;
+}
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 100;
+
+// Provider categories and free text -> geofence_category_defaults keys, most specific first
+const CATEGORY_KEYWORDS: Array<[string, string]> = [
+  ['warehouse', 'warehouse_club'],
+  ['wholesale', 'warehouse_club'],
+  ['theme_park', 'theme_park'],
+  ['amusement', 'theme_park'],
+  ['shopping_mall', 'shopping_mall'],
+  ['shopping_cent', 'shopping_mall'],
+  ['mall', 'shopping_mall'],
+  ['department', 'department_store'],
+  ['hardware', 'hardware_store'],
+  ['doityourself', 'hardware_store'],
+  ['supermarket', 'grocery'],
+  ['grocery', 'grocery'],
+  ['coffee', 'coffee_shop'],
+  ['cafe', 'coffee_shop'],
+  ['pharmacy', 'pharmacy'],
+  ['chemist', 'pharmacy'],
+  ['library', 'library'],
+  ['fast_food', 'restaurant'],
+  ['restaurant', 'restaurant'],
+  ['fuel', 'gas_station'],
+  ['gas_station', 'gas_station']
+];
+
+export function resolveGeofenceRadius(input: RadiusInput, categoryRadii: Map<string, number>): ResolvedRadius {
+  if (isRadius(input.locationRadius)) {
+    return { radiusMeters: input.locationRadius, source: 'location' };
+  }
+
+  if (isRadius(input.networkRadius)) {
+    return { radiusMeters: input.networkRadius, source: 'network' };
+  }
+
+  const categories = (input.categories || []).filter((c): c is string => !!c);
+
+  for (const category of categories) {
+    const key = categoryKey(category, categoryRadii);
+    if (key) {
+      return { radiusMeters: categoryRadii.get(key) as number, source: 'category' };
+    }
+  }
+
+  return { radiusMeters: estimateRadius(categories), source: 'heuristic' };
+}
+
+/**
+ * The geofence_category_defaults key a raw category ("Supermarket",
+ * "shop=wholesale", "Coffee Shop") maps to, if it has a default
+ */
+export function categoryKey(category: string, categoryRadii: Map<string, number>): string | null {
+  const normalized = normalizeCategory(category);
+
+  if (categoryRadii.has(normalized)) {
+    return normalized;
+  }
+
+  for (const [keyword, key] of CATEGORY_KEYWORDS) {
+    if (normalized.includes(keyword) && categoryRadii.has(key)) {
+      return key;
+    }
+  }
+
+  return null;
+}
+
+export function normalizeCategory(category: string): string {
+  return category.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Last resort when nothing above has a radius: guess from category keywords
+ */
+export function estimateRadius(categories: string[]): number {
+  const lower = categories.map(c => c.toLowerCase());
+
+  if (lower.some(cat => cat.includes('supermarket') || cat.includes('grocery'))) {
+    return 80;
+  }
+
+  if (lower.some(cat => cat.includes('library'))) {
+    return 50;
+  }
+
+  if (lower.some(cat => cat.includes('theme') || cat.includes('park'))) {
+    return 2000; // Large area
+  }
+
+  if (lower.some(cat => cat.includes('mall') || cat.includes('shopping'))) {
+    return 150;
+  }
+
+  return DEFAULT_GEOFENCE_RADIUS_METERS;
+}
+
+function isRadius(value: number | null | undefined): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
@@ -1,81 +1,228 @@
+import { kv } from '@vercel/kv';
+
 interface RateLimitOptions {
   requestsPerMinute: number;
-  burstLimit?: number;
+  burstLimit?: number; // Bucket size: requests allowed back to back (defaults to requestsPerMinute)
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+/**
+ * Token bucket storage. `consume` takes one token if available, refilling at
+ * `refillPerMs` up to `capacity` since the bucket was last touched.
+ */
+export interface RateLimitStore {
+  consume(key: string, capacity: number, refillPerMs: number, now: number): Promise<RateLimitResult>;
+  peek(key: string, capacity: number, refillPerMs: number, now: number): Promise<number>;
 }
 
-class RateLimiter {
-  private requests = new Map<string, number[]>();
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private lastCleanup = 0;
 
-  constructor(private options: RateLimitOptions) {}
+  async consume(key: string, capacity: number, refillPerMs: number, now: number): Promise<RateLimitResult> {
+    this.cleanup(now);
 
-  isAllowed(identifier: string): boolean {
-    const now = Date.now();
-    const windowStart = now - 60000; // 1 minute window
-    const key = `${this.constructor.name}:${identifier}`;
+    const tokens = this.refill(key, capacity, refillPerMs, now);
 
-    // Get existing timestamps for this identifier
-    let timestamps = this.requests.get(key) || [];
+    if (tokens < 1) {
+      this.buckets.set(key, { tokens, updatedAt: now });
+      return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) };
+    }
 
-    // Remove timestamps outside the current window
-    timestamps = timestamps.filter(ts => ts > windowStart);
+    this.buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+    return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 };
+  }
 
-    // Check if we're within the limit
-    if (timestamps.length >= this.options.requestsPerMinute) {
-      return false;
+  async peek(key: string, capacity: number, refillPerMs: number, now: number): Promise<number> {
+    return Math.floor(this.refill(key, capacity, refillPerMs, now));
+  }
+
+  private refill(key: string, capacity: number, refillPerMs: number, now: number): number {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return capacity;
     }
+    return Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+  }
 
-    // Add current timestamp
-    timestamps.push(now);
-    this.requests.set(key, timestamps);
+  // Drop buckets idle for more than 2 minutes (they would be full again anyway)
+  private cleanup(now: number): void {
+    if (now - this.lastCleanup < 60000) {
+      return;
+    }
+    this.lastCleanup = now;
 
-    return true;
+    for (const [key, bucket] of this.buckets.entries()) {
+      if (now - bucket.updatedAt > 120000) {
+        this.buckets.delete(key);
+      }
+    }
   }
+}
+
+// Atomic token bucket: KEYS[1] = bucket, ARGV = capacity, refillPerMs, now, ttlSeconds
+const TOKEN_BUCKET_SCRIPT = `
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at')
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local tokens = tonumber(bucket[1]) or capacity
+local updated = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updated) * refill)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated_at', tostring(now))
+redis.call('EXPIRE', KEYS[1], tonumber(ARGV[4]))
+return {allowed, tostring(tokens)}
+`;
 
-  getRemainingRequests(identifier: string): number {
-    const key = `${this.constructor.name}:${identifier}`;
-    const timestamps = this.requests.get(key) || [];
-    const windowStart = Date.now() - 60000;
-    const validTimestamps = timestamps.filter(ts => ts > windowStart);
+/**
+ * Shared bucket in Vercel KV so every serverless instance draws from the same
+ * budget. Falls back to a per-process bucket if KV is unreachable.
+ */
+export class KVRateLimitStore implements RateLimitStore {
+  constructor(private fallback: RateLimitStore = new MemoryRateLimitStore()) {}
 
-    return Math.max(0, this.options.requestsPerMinute - validTimestamps.length);
+  async consume(key: string, capacity: number, refillPerMs: number, now: number): Promise<RateLimitResult> {
+    try {
+      const ttlSeconds = Math.ceil(capacity / refillPerMs / 1000) + 60;
+      const [allowed, tokensText] = await kv.eval<(string | number)[], [number, string]>(
+        TOKEN_BUCKET_SCRIPT,
+        [key],
+        [capacity, refillPerMs, now, ttlSeconds]
+      );
+      const tokens = parseFloat(tokensText);
+
+      return allowed === 1
+        ? { allowed: true, remaining: Math.floor(tokens), retryAfterMs: 0 }
+        : { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) };
+    } catch (error) {
+      console.warn('Rate limit KV error, using in-memory bucket:', error);
+      return this.fallback.consume(key, capacity, refillPerMs, now);
+    }
   }
 
-  // Clean up old entries periodically
-  cleanup(): void {
-    const cutoff = Date.now() - 120000; // Remove entries older than 2 minutes
-    for (const [key, timestamps] of this.requests.entries()) {
-      const validTimestamps = timestamps.filter(ts => ts > cutoff);
-      if (validTimestamps.length === 0) {
-        this.requests.delete(key);
-      } else {
-        this.requests.set(key, validTimestamps);
+  async peek(key: string, capacity: number, refillPerMs: number, now: number): Promise<number> {
+    try {
+      const bucket = await kv.hmget<{ tokens: string; updated_at: string }>(key, 'tokens', 'updated_at');
+      if (!bucket || bucket.tokens === null || bucket.tokens === undefined) {
+        return capacity;
       }
+      const elapsed = Math.max(0, now - parseFloat(bucket.updated_at));
+      return Math.floor(Math.min(capacity, parseFloat(bucket.tokens) + elapsed * refillPerMs));
+    } catch (error) {
+      return this.fallback.peek(key, capacity, refillPerMs, now);
     }
   }
 }
 
-// Global cleanup
-if (typeof globalThis !== 'undefined') {
-  setInterval(() => {
-    // This would ideally be done per rate limiter instance, but for simplicity:
-    const cleanupKey = 'rateLimiterCleanup';
-    if (!(globalThis as any)[cleanupKey]) {
-      (globalThis as any)[cleanupKey] = true;
-      setInterval(() => {
-        // Clean up all rate limiters (this is a simplified approach)
-      }, 300000); // Clean every 5 minutes
+export class RateLimiter {
+  private capacity: number;
+  private refillPerMs: number;
+  private queues = new Map<string, { tail: Promise<void>; length: number }>();
+
+  constructor(
+    private name: string,
+    private options: RateLimitOptions,
+    private store: RateLimitStore = defaultStore()
+  ) {
+    this.capacity = Math.max(1, options.burstLimit ?? options.requestsPerMinute);
+    this.refillPerMs = options.requestsPerMinute / 60000;
+  }
+
+  /**
+   * Take one request from the budget for `identifier`
+   */
+  async consume(identifier: string): Promise<RateLimitResult> {
+    return this.store.consume(this.key(identifier), this.capacity, this.refillPerMs, Date.now());
+  }
+
+  /**
+   * Like consume, but waits in a FIFO queue (per process) for up to `maxWaitMs`.
+   * Callers whose estimated wait already exceeds the budget are rejected
+   * immediately with the estimate as `retryAfterMs`.
+   */
+  async acquire(identifier: string, maxWaitMs: number): Promise<RateLimitResult> {
+    if (maxWaitMs <= 0) {
+      return this.consume(identifier);
+    }
+
+    const key = this.key(identifier);
+    const deadline = Date.now() + maxWaitMs;
+    const available = await this.store.peek(key, this.capacity, this.refillPerMs, Date.now());
+    const queue = this.queues.get(key) || { tail: Promise.resolve(), length: 0 };
+
+    // Waiters ahead of us first use the tokens already in the bucket; each one
+    // beyond that needs a token, which refills every 1/refillPerMs ms
+    const queuedWaitMs = Math.max(0, queue.length - available) / this.refillPerMs;
+    if (queuedWaitMs > maxWaitMs) {
+      return { allowed: false, remaining: 0, retryAfterMs: Math.ceil(queuedWaitMs) };
+    }
+
+    let release: () => void = () => {};
+    const turn = queue.tail;
+    queue.tail = new Promise<void>(resolve => { release = resolve; });
+    queue.length++;
+    this.queues.set(key, queue);
+
+    try {
+      await turn;
+
+      while (true) {
+        const result = await this.consume(identifier);
+        if (result.allowed || Date.now() + result.retryAfterMs > deadline) {
+          return result;
+        }
+        await new Promise(resolve => setTimeout(resolve, result.retryAfterMs));
+      }
+    } finally {
+      queue.length--;
+      if (queue.length === 0 && this.queues.get(key) === queue) {
+        this.queues.delete(key);
+      }
+      release();
     }
-  }, 1000);
+  }
+
+  async isAllowed(identifier: string): Promise<boolean> {
+    return (await this.consume(identifier)).allowed;
+  }
+
+  async getRemainingRequests(identifier: string): Promise<number> {
+    return this.store.peek(this.key(identifier), this.capacity, this.refillPerMs, Date.now());
+  }
+
+  private key(identifier: string): string {
+    return `ratelimit:${this.name}:${identifier}`;
+  }
+}
+
+function defaultStore(): RateLimitStore {
+  // Same switch as PlacesCache: KV when configured, per-process memory otherwise
+  return process.env.KV_URL || process.env.REDIS_URL
+    ? new KVRateLimitStore()
+    : new MemoryRateLimitStore();
 }
 
-export const nominatimLimiter = new RateLimiter({
-  requestsPerMinute: parseInt(process.env.PLACES_RATE_LIMIT_PER_MIN || '60')
+// OSM policy: at most 1 request/second on average
+export const nominatimLimiter = new RateLimiter('nominatim', {
+  requestsPerMinute: parseInt(process.env.PLACES_RATE_LIMIT_PER_MIN || '60'),
+  burstLimit: parseInt(process.env.PLACES_RATE_LIMIT_BURST || '5')
 });
 
-export const foursquareLimiter = new RateLimiter({
-  requestsPerMinute: 500 // Foursquare free tier limit
+export const foursquareLimiter = new RateLimiter('foursquare', {
+  requestsPerMinute: 500, // Foursquare free tier limit
+  burstLimit: 50
 });
 
-export const googlePlacesLimiter = new RateLimiter({
+export const googlePlacesLimiter = new RateLimiter('google', {
   requestsPerMinute: 100 // Conservative limit for Google Places
 });
@@ -0,0 +1,174 @@
+import levenshtein from 'fast-levenshtein';
+import { haversineDistance } from './geoIndex';
+import { NetworkAliases, Place } from './types';
+
+// Weights for the combined relevance score. Signals that do not apply to a
+// request (no query, no user location) are dropped and the rest renormalized.
+const WEIGHTS = {
+  text: 0.45,
+  alias: 0.15,
+  category: 0.1,
+  distance: 0.15,
+  networkGuess: 0.15
+};
+
+const DISTANCE_DECAY_METERS = 5000; // Score halves roughly every 3.5km
+const TOKEN_MATCH_THRESHOLD = 0.75;
+export const TEXT_MATCH_THRESHOLD = 0.6;
+
+export interface RelevanceContext {
+  query: string;
+  lat?: number;
+  lon?: number;
+  networks?: NetworkAliases[]; // Known networks and their canonical names/aliases
+}
+
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\w\s]/g, '') // Remove punctuation
+    .replace(/\s+/g, ' ') // Normalize whitespace
+    .trim();
+}
+
+export function tokenize(name: string): string[] {
+  return normalizeName(name.replace(/[-_]/g, ' ')).split(' ').filter(Boolean);
+}
+
+/**
+ * 0-1 similarity between a query and a candidate name, taking the best of
+ * token overlap, whole-string edit distance and compact containment
+ * ("wholefoods" in "Whole Foods Market")
+ */
+export function textSimilarity(query: string, candidate: string): number {
+  const queryTokens = tokenize(query);
+  const candidateTokens = tokenize(candidate);
+
+  if (queryTokens.length === 0 || candidateTokens.length === 0) {
+    return 0;
+  }
+
+  const normalizedQuery = queryTokens.join(' ');
+  const normalizedCandidate = candidateTokens.join(' ');
+
+  if (normalizedQuery === normalizedCandidate) {
+    return 1;
+  }
+
+  // Token overlap: each query token scored against its best candidate token
+  const tokenOverlap = queryTokens
+    .map(qt => Math.max(...candidateTokens.map(ct => tokenSimilarity(qt, ct))))
+    .reduce((sum, score) => sum + score, 0) / queryTokens.length;
+
+  // Whole-string edit distance
+  const editSimilarity = 1 - levenshtein.get(normalizedQuery, normalizedCandidate) /
+    Math.max(normalizedQuery.length, normalizedCandidate.length);
+
+  // Compact containment handles missing/extra spaces
+  const compactQuery = queryTokens.join('');
+  const compactCandidate = candidateTokens.join('');
+  const compactScore = compactQuery.length >= 3 && compactCandidate.includes(compactQuery) ? 0.9 : 0;
+
+  return Math.max(tokenOverlap, editSimilarity, compactScore);
+}
+
+export function bestTextSimilarity(query: string, candidates: Array<string | undefined>): number {
+  let best = 0;
+  for (const candidate of candidates) {
+    if (candidate) {
+      best = Math.max(best, textSimilarity(query, candidate));
+    }
+  }
+  return best;
+}
+
+function tokenSimilarity(queryToken: string, candidateToken: string): number {
+  if (queryToken === candidateToken) {
+    return 1;
+  }
+
+  // Typed prefix ("cost" -> "costco")
+  if (queryToken.length >= 2 && candidateToken.startsWith(queryToken)) {
+    return 0.9;
+  }
+
+  // Abbreviation ("whse" -> "wholesale", "mkt" -> "market")
+  if (isAbbreviation(queryToken, candidateToken)) {
+    return 0.8;
+  }
+
+  const similarity = 1 - levenshtein.get(queryToken, candidateToken) /
+    Math.max(queryToken.length, candidateToken.length);
+
+  return similarity >= TOKEN_MATCH_THRESHOLD ? similarity : 0;
+}
+
+function isAbbreviation(short: string, long: string): boolean {
+  if (short.length < 3 || short.length >= long.length || short[0] !== long[0]) {
+    return false;
+  }
+
+  let i = 0;
+  for (const char of long) {
+    if (char === short[i]) {
+      i++;
+      if (i === short.length) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Networks whose name or aliases match the query
+ */
+export function matchNetworks(query: string, networks: NetworkAliases[]): NetworkAliases[] {
+  if (!query.trim()) {
+    return [];
+  }
+  return networks.filter(network => bestTextSimilarity(query, network.names) >= TEXT_MATCH_THRESHOLD);
+}
+
+/**
+ * Combined 0-1 relevance of a place for a query and optional user location
+ */
+export function scoreRelevance(place: Place, context: RelevanceContext): number {
+  const signals: Array<{ weight: number; score: number }> = [];
+  const hasQuery = tokenize(context.query).length > 0;
+
+  if (hasQuery) {
+    signals.push({
+      weight: WEIGHTS.text,
+      score: bestTextSimilarity(context.query, [place.name, place.address])
+    });
+
+    // Alias: the place looks like a network the query names ("Costco Whse" -> Costco Wholesale)
+    const queryNetworks = matchNetworks(context.query, context.networks || []);
+    const aliasScore = queryNetworks.length === 0
+      ? 0
+      : Math.max(...queryNetworks.map(network =>
+          place.categories.includes(network.id)
+            ? 1
+            : Math.max(...network.names.map(name => bestTextSimilarity(name, [place.name, ...place.categories])))
+        ));
+    signals.push({ weight: WEIGHTS.alias, score: aliasScore >= 0.85 ? aliasScore : 0 });
+
+    signals.push({
+      weight: WEIGHTS.category,
+      score: bestTextSimilarity(context.query, place.categories) >= 0.85 ? 1 : 0
+    });
+  }
+
+  if (context.lat !== undefined && context.lon !== undefined) {
+    const distance = haversineDistance(context.lat, context.lon, place.lat, place.lon);
+    signals.push({ weight: WEIGHTS.distance, score: Math.exp(-distance / DISTANCE_DECAY_METERS) });
+  }
+
+  signals.push({ weight: WEIGHTS.networkGuess, score: place.networkGuessScore || 0 });
+
+  const totalWeight = signals.reduce((sum, s) => sum + s.weight, 0);
+  const score = signals.reduce((sum, s) => sum + s.weight * s.score, 0) / totalWeight;
+
+  return Math.round(score * 1000) / 1000;
+}
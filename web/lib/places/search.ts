@@ -1,34 +1,40 @@
-import { searchNominatim } from './nominatimConnector';
-import { searchFoursquare } from './foursquareConnector';
-import { getCuratedLocationsNearby } from './csvImporter';
-import { Place, SearchOptions, SearchResponse } from './types';
-import levenshtein from 'fast-levenshtein';
+import { getPlaceProvider, resolvePlaceProviders } from './providers';
+import { ProviderTimeoutError, RateLimitedError } from './errors';
+import { haversineDistance } from './geoIndex';
+import { getNetworkAliases } from './networkRepository';
+import { normalizeName, scoreRelevance } from './relevance';
+import { Place, PlaceProvider, PlaceProviderId, ProviderStatus, SearchOptions, SearchResponse } from './types';
+
+const DEFAULT_PROVIDER_TIMEOUT_MS = parseInt(process.env.PLACES_PROVIDER_TIMEOUT_MS || '4000');
 
 export async function searchPlaces(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
-  const { source = 'both' } = options;
-  const results: Place[] = [];
+  const providers = resolvePlaceProviders(options.source, 'textSearch');
 
-  try {
-    // Search curated locations first (exact matches)
-    const curatedResults = await searchCurated(query, options);
-    results.push(...curatedResults);
-
-    // Search external APIs based on source preference
-    if (source === 'nominatim' || source === 'both') {
-      const nominatimResults = await searchNominatim(query, options);
-      results.push(...nominatimResults);
-    }
+  // Query all selected providers concurrently; each settles on its own deadline
+  const outcomes = await Promise.all(providers.map(provider => runProvider(provider, query, options)));
 
-    if (source === 'foursquare' || source === 'both') {
-      const foursquareResults = await searchFoursquare(query, options);
-      results.push(...foursquareResults);
+  const results: Place[] = [];
+  const providerStatus: Record<PlaceProviderId, ProviderStatus> = {};
+  const rateLimited: PlaceProviderId[] = [];
+
+  for (const outcome of outcomes) {
+    results.push(...outcome.results);
+    providerStatus[outcome.providerId] = outcome.status;
+    if (outcome.status.status === 'rate_limited') {
+      rateLimited.push(outcome.providerId);
     }
+  }
 
+  try {
     // Deduplicate and normalize results
     const deduplicated = deduplicatePlaces(results);
 
-    // Sort by relevance (network score, then distance if coordinates provided)
-    const sorted = sortPlaces(deduplicated, options.lat, options.lon, query);
+    // Score relevance (text, aliases, category, distance, network guess) and sort
+    const networks = await getNetworkAliases();
+    for (const place of deduplicated) {
+      place.relevanceScore = scoreRelevance(place, { query, lat: options.lat, lon: options.lon, networks });
+    }
+    const sorted = sortPlaces(deduplicated, options.lat, options.lon);
 
     // Limit results
     const limited = sorted.slice(0, options.limit || 20);
@@ -36,42 +42,82 @@ export async function searchPlaces(query: string, options: SearchOptions = {}):
     return {
       results: limited,
       total: limited.length,
-      query
+      query,
+      providers: providerStatus,
+      rateLimited
     };
   } catch (error) {
     console.error('Search places error:', error);
     return {
       results: [],
       total: 0,
-      query
+      query,
+      providers: providerStatus,
+      rateLimited
     };
   }
 }
 
-async function searchCurated(query: string, options: SearchOptions): Promise<Place[]> {
-  // For curated search, we look for network matches and return their locations
-  // This is a simplified implementation - in production you'd have better matching
-  const curatedLocations = options.lat && options.lon
-    ? getCuratedLocationsNearby(options.lat, options.lon, 50) // Get nearby curated locations
-    : [];
-
-  return curatedLocations
-    .filter(loc => {
-      // Simple text matching - could be improved with better search logic
-      const nameMatch = loc.network_name.toLowerCase().includes(query.toLowerCase());
-      const notesMatch = loc.notes?.toLowerCase().includes(query.toLowerCase());
-      return nameMatch || notesMatch;
-    })
-    .map(loc => ({
-      id: `curated:${loc.network_id}:${loc.lat}:${loc.lon}`,
-      name: loc.network_name,
-      address: loc.notes,
-      lat: loc.lat,
-      lon: loc.lon,
-      categories: [loc.network_id],
-      dataSource: 'curated' as const,
-      networkGuessScore: 1.0 // Curated data is authoritative
-    }));
+/**
+ * Whether a search should be answered 429: only when a provider was rate limited
+ * and none produced a result. Otherwise the partial results are returned with the
+ * throttled providers listed in `rateLimited`.
+ */
+export function isRateLimitedSearch(response: SearchResponse): boolean {
+  return response.rateLimited.length > 0 && response.results.length === 0;
+}
+
+async function runProvider(
+  provider: PlaceProvider,
+  query: string,
+  options: SearchOptions
+): Promise<{ providerId: PlaceProviderId; results: Place[]; status: ProviderStatus }> {
+  const startedAt = Date.now();
+  const timeoutMs = provider.timeoutMs || DEFAULT_PROVIDER_TIMEOUT_MS;
+
+  try {
+    const results = await withDeadline(provider.search!(query, options), provider.id, timeoutMs);
+
+    return {
+      providerId: provider.id,
+      results,
+      status: { status: 'ok', latencyMs: Date.now() - startedAt, resultCount: results.length }
+    };
+  } catch (error) {
+    const latencyMs = Date.now() - startedAt;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    let status: ProviderStatus;
+    if (error instanceof ProviderTimeoutError) {
+      status = { status: 'timeout', latencyMs, resultCount: 0, error: message };
+    } else if (error instanceof RateLimitedError) {
+      status = { status: 'rate_limited', latencyMs, resultCount: 0, error: message, retryAfterMs: error.retryAfterMs };
+    } else {
+      console.error(`Search provider ${provider.id} error:`, error);
+      status = { status: 'error', latencyMs, resultCount: 0, error: message };
+    }
+
+    return { providerId: provider.id, results: [], status };
+  }
+}
+
+function withDeadline<T>(promise: Promise<T>, providerId: PlaceProviderId, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ProviderTimeoutError(providerId, timeoutMs)), timeoutMs);
+  });
+
+  return Promise.race([promise, deadline]).then(
+    value => {
+      clearTimeout(timer);
+      return value;
+    },
+    error => {
+      clearTimeout(timer);
+      throw error;
+    }
+  );
 }
 
 function deduplicatePlaces(places: Place[]): Place[] {
@@ -116,13 +162,13 @@ function deduplicatePlaces(places: Place[]): Place[] {
   return result;
 }
 
-function sortPlaces(places: Place[], userLat?: number, userLon?: number, query?: string): Place[] {
+function sortPlaces(places: Place[], userLat?: number, userLon?: number): Place[] {
   return places.sort((a, b) => {
-    // First, sort by network guess score (higher is better)
-    const aScore = a.networkGuessScore || 0;
-    const bScore = b.networkGuessScore || 0;
+    // First, sort by relevance score (higher is better)
+    const aScore = a.relevanceScore || 0;
+    const bScore = b.relevanceScore || 0;
 
-    if (aScore !== bScore) {
+    if (Math.abs(aScore - bScore) > 0.01) {
       return bScore - aScore;
     }
 
@@ -136,35 +182,10 @@ function sortPlaces(places: Place[], userLat?: number, userLon?: number, query?:
       }
     }
 
-    // Finally, prefer curated data over external APIs
-    const sourceOrder = { curated: 0, nominatim: 1, foursquare: 2, google: 3 };
-    const aOrder = sourceOrder[a.dataSource] || 999;
-    const bOrder = sourceOrder[b.dataSource] || 999;
+    // Finally, prefer higher-priority providers (curated data over external APIs)
+    const aOrder = getPlaceProvider(a.dataSource)?.priority ?? 999;
+    const bOrder = getPlaceProvider(b.dataSource)?.priority ?? 999;
 
     return aOrder - bOrder;
   });
 }
-
-function normalizeName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^\w\s]/g, '') // Remove punctuation
-    .replace(/\s+/g, ' ') // Normalize whitespace
-    .trim();
-}
-
-function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const toRad = (d: number) => d * Math.PI / 180;
-  const R = 6371000; // Earth radius in meters
-
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-
-  const a =
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-}
@@ -1,3 +1,7 @@
+import type { RateLimiter } from './rateLimiter';
+import type { RadiusSource } from './radius';
+import type { AcceptanceEdge } from './acceptance';
+
 export interface Place {
   id: string;
   name: string;
@@ -5,31 +9,90 @@ export interface Place {
   lat: number;
   lon: number;
   categories: string[];
-  dataSource: 'nominatim' | 'foursquare' | 'google' | 'curated';
+  dataSource: PlaceProviderId;
   networkGuessScore?: number; // 0-1, how likely this place belongs to a network
+  relevanceScore?: number; // 0-1, combined query/category/distance relevance set by searchPlaces
   raw?: any; // Original API response data
 }
 
+export interface PlaceHours {
+  display: string; // Human-readable, e.g. OSM "Mo-Fr 08:00-20:00" or Foursquare "Mon-Fri 8:00 AM-8:00 PM"
+  regular?: Array<{
+    day: number; // 1 = Monday ... 7 = Sunday
+    open: string; // "HHMM"
+    close: string; // "HHMM"
+  }>;
+}
+
+export interface PlaceDetails extends Place {
+  phone?: string;
+  website?: string;
+  hours?: PlaceHours;
+  networkId?: string; // Set when the place belongs to a known network
+  radiusMeters?: number;
+}
+
 export interface CuratedLocation {
+  id: string; // locations.id
   network_id: string;
   network_name: string;
   lat: number;
   lon: number;
-  radius_meters: number;
+  radius_meters: number; // Effective geofence radius (see lib/places/radius.ts)
+  radius_override?: number; // The location's own radius, when its import set one
+  radius_source?: RadiusSource; // Where radius_meters came from
   notes?: string;
+  external_key?: string; // store_id / ref from the import source
+  removed_at?: string; // Tombstoned by a re-import
 }
 
 export interface Network {
   id: string;
   name: string;
+  aliases?: string[]; // networks.canonical_names, e.g. ["Costco", "Costco Whse"]
+  category?: string;
+  default_radius_meters?: number | null; // Geofence radius for locations without their own; null clears it on save
   locations: CuratedLocation[];
 }
 
+export interface LocationImportDiff {
+  added: CuratedLocation[];
+  updated: Array<{ before: CuratedLocation; after: CuratedLocation }>;
+  removed: CuratedLocation[]; // Existing locations missing from the import (tombstoned)
+  unchanged: number;
+}
+
+export interface NetworkAliases {
+  id: string;
+  names: string[]; // Display name plus aliases
+}
+
 export interface SearchOptions {
   lat?: number;
   lon?: number;
   limit?: number;
-  source?: 'nominatim' | 'foursquare' | 'google' | 'both';
+  // Provider ids to query, e.g. 'nominatim,curated' or ['nominatim', 'curated'].
+  // 'both' (or omitting it) queries every provider registered as defaultEnabled.
+  source?: string | PlaceProviderId[];
+}
+
+// Built-in providers are 'curated', 'nominatim' and 'foursquare'; any connector
+// can register its own id.
+export type PlaceProviderId = string;
+
+export type PlaceCapability = 'textSearch' | 'nearby' | 'details';
+
+export interface PlaceProvider {
+  id: PlaceProviderId;
+  capabilities: PlaceCapability[];
+  rateLimiter?: RateLimiter;
+  cacheTtlSeconds: number;
+  priority: number; // Lower wins when otherwise-equal results are sorted
+  timeoutMs?: number; // Per-query deadline in searchPlaces (default PLACES_PROVIDER_TIMEOUT_MS)
+  defaultEnabled: boolean; // Queried when the caller does not pick sources
+  search?: (query: string, options: SearchOptions) => Promise<Place[]>;
+  nearby?: (lat: number, lon: number, options: SearchOptions) => Promise<Place[]>;
+  getDetails?: (placeId: string) => Promise<PlaceDetails | null>; // Receives the full prefixed id
 }
 
 export interface RegionRefreshRequest {
@@ -38,24 +101,45 @@ export interface RegionRefreshRequest {
   limit?: number;
 }
 
+export type ProviderStatusCode = 'ok' | 'timeout' | 'rate_limited' | 'error';
+
+export interface ProviderStatus {
+  status: ProviderStatusCode;
+  latencyMs: number;
+  resultCount: number;
+  error?: string;
+  retryAfterMs?: number; // Set when rate_limited
+}
+
+export interface RegionRefreshLocation {
+  id: string;
+  networkId?: string;
+  brandId?: string;
+  name: string;
+  lat: number;
+  lon: number;
+  radiusMeters: number;
+  source: string; // 'curated', 'brand', 'card' or a place provider id
+  verified?: boolean; // Curated, admin-verified brand location or the user's own card location
+  notes?: string;
+  cardIds?: string[]; // The user's cards usable here: accepted at its network or recorded at this location
+  templateIds?: string[]; // Card templates linked to this brand location
+  acceptedByGiftCards?: string[]; // Deprecated: gift card brand ids of the cards in cardIds, kept for older iOS clients
+  distance?: number;
+}
+
 export interface RegionRefreshResponse {
   ok: boolean;
-  locations: Array<{
-    id: string;
-    networkId?: string;
-    name: string;
-    lat: number;
-    lon: number;
-    radiusMeters: number;
-    source: string;
-    distance?: number;
-  }>;
+  providers?: Record<PlaceProviderId, ProviderStatus>;
+  locations: RegionRefreshLocation[];
 }
 
 export interface SearchResponse {
   results: Place[];
   total: number;
   query: string;
+  providers: Record<PlaceProviderId, ProviderStatus>; // Partial results are still returned when some fail
+  rateLimited: PlaceProviderId[]; // Providers that were throttled
 }
 
 export interface NetworkLocationsResponse {
@@ -72,3 +156,37 @@ export interface NetworkLocationsResponse {
     notes?: string;
   }>;
 }
+
+export interface NetworkAcceptedCardsResponse {
+  network: {
+    id: string;
+    name: string;
+  };
+  at: string; // YYYY-MM-DD the acceptance was resolved for
+  acceptedCards: AcceptedCard[];
+}
+
+// A resolved acceptance edge without its id, reporter or notes (the route is public)
+export type AcceptedCard = Pick<
+  AcceptanceEdge,
+  'subjectType' | 'subjectId' | 'subjectName' | 'networkId' | 'accepted' | 'scope' | 'source' | 'confidence' | 'effectiveFrom' | 'effectiveTo'
+>;
+
+export interface NetworkImportResponse {
+  dryRun: boolean;
+  network: {
+    id: string;
+    name: string;
+    category: string; // What the network's category is (or will be) after the import
+    created: boolean;
+  };
+  summary: {
+    added: number;
+    updated: number;
+    removed: number;
+    unchanged: number;
+    invalid: number;
+  };
+  diff: LocationImportDiff;
+  errors: string[]; // Per-row validation errors ("Row 3: ...", "Feature 2: ...")
+}
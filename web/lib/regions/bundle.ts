@@ -0,0 +1,116 @@
+import { createHash } from 'crypto';
+import { placesCache } from '../places/cache';
+import { BBox, geohashToBBox } from '../places/geoIndex';
+import { loadBrandLocations, loadCardLocations, loadCuratedLocations } from './sources';
+import { RegionBundle, RegionBundleDelta, RegionLocation } from './types';
+
+// Bump when the shape or content of RegionLocation changes; clients drop bundles of other versions.
+// 2: curated locations carry verified: true
+export const REGION_BUNDLE_VERSION = 2;
+
+export const MIN_BUNDLE_PRECISION = 4; // ~39km x 19km cells
+export const MAX_BUNDLE_PRECISION = 6; // ~1.2km x 0.6km cells
+
+const SNAPSHOT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Past bundles by content hash, so clients holding one can be sent a delta
+const snapshots = placesCache.namespace('region-bundle', REGION_BUNDLE_VERSION);
+
+/**
+ * Every location a device may geofence inside one geohash cell: curated network
+ * locations, brand locations, and (when signed in) the user's own card locations
+ */
+export async function buildRegionBundle(geohash: string, userId?: string | null): Promise<RegionBundle> {
+  const cell = geohash.toLowerCase();
+  const bbox = geohashToBBox(cell);
+
+  const locations = await loadRegionLocations(bbox, userId);
+  const contentHash = hashLocations(locations);
+
+  const bundle: RegionBundle = {
+    version: REGION_BUNDLE_VERSION,
+    geohash: cell,
+    bbox,
+    contentHash,
+    generatedAt: new Date().toISOString(),
+    locations
+  };
+
+  await snapshots.set(snapshotKey(cell, userId, contentHash), locations, SNAPSHOT_TTL_SECONDS);
+
+  return bundle;
+}
+
+/**
+ * Curated, brand and (with a user) card locations inside `bbox`, sorted by id
+ */
+export async function loadRegionLocations(bbox: BBox, userId?: string | null): Promise<RegionLocation[]> {
+  const [curated, brands, cards] = await Promise.all([
+    loadCuratedLocations(bbox),
+    loadBrandLocations(bbox),
+    userId ? loadCardLocations(bbox, userId) : Promise.resolve([])
+  ]);
+
+  return [...curated, ...brands, ...cards].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+/**
+ * Changes from the bundle a client already holds (`baseHash`) to `bundle`, or
+ * null when that snapshot is no longer known and the full bundle must be sent
+ */
+export async function diffRegionBundle(
+  bundle: RegionBundle,
+  baseHash: string,
+  userId?: string | null
+): Promise<RegionBundleDelta | null> {
+  const base = await snapshots.get<RegionLocation[]>(snapshotKey(bundle.geohash, userId, baseHash));
+  if (!base) {
+    return null;
+  }
+
+  const previous = new Map(base.map(loc => [loc.id, JSON.stringify(loc)]));
+  const added: RegionLocation[] = [];
+  const updated: RegionLocation[] = [];
+
+  for (const loc of bundle.locations) {
+    const before = previous.get(loc.id);
+    if (before === undefined) {
+      added.push(loc);
+    } else if (before !== JSON.stringify(loc)) {
+      updated.push(loc);
+    }
+    previous.delete(loc.id);
+  }
+
+  return {
+    version: bundle.version,
+    geohash: bundle.geohash,
+    baseHash,
+    contentHash: bundle.contentHash,
+    generatedAt: bundle.generatedAt,
+    added,
+    updated,
+    removed: Array.from(previous.keys())
+  };
+}
+
+export function bundleETag(contentHash: string): string {
+  return `"v${REGION_BUNDLE_VERSION}-${contentHash}"`;
+}
+
+/**
+ * Content hash named by an If-None-Match ETag from this version, if any
+ */
+export function contentHashFromETag(etag: string): string | null {
+  const match = etag.trim().replace(/^W\//, '').match(/^"v(\d+)-([0-9a-f]+)"$/);
+  return match && parseInt(match[1]) === REGION_BUNDLE_VERSION ? match[2] : null;
+}
+
+export function hashLocations(locations: RegionLocation[]): string {
+  return createHash('sha256').update(JSON.stringify(locations)).digest('hex');
+}
+
+// Anonymous and per-user bundles of the same cell differ, so their snapshots must too
+function snapshotKey(geohash: string, userId: string | null | undefined, contentHash: string): string {
+  return `${userId || 'anonymous'}:${geohash}:${contentHash}`;
+}
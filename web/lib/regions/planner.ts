@@ -0,0 +1,176 @@
+import { createHash } from 'crypto';
+import { GeoPoint, haversineDistance } from '../places/geoIndex';
+import { PlannedRegion, RefreshBoundary, RegionLocation, RegionPlan } from './types';
+
+// CLLocationManager monitors at most 20 regions per app, and the watch app shares them
+export const IOS_REGION_LIMIT = 20;
+
+export const DEFAULT_SEARCH_RADIUS_METERS = 5000;
+export const MAX_SEARCH_RADIUS_METERS = 50000;
+
+const DEFAULT_MAX_CLUSTER_RADIUS_METERS = 500;
+const MIN_BOUNDARY_RADIUS_METERS = 200;
+const MAX_CANDIDATES = 500;
+const USAGE_SLACK_METERS = 50; // GPS error when the user recorded where a card was used
+const USAGE_WEIGHT = 2; // Each recorded use counts like two unused stores at the same distance
+const DISTANCE_DECAY_METERS = 1000;
+
+export const REFRESH_BOUNDARY_ID = 'refresh-boundary';
+
+export interface PlanOptions {
+  reservedRegions?: number; // Slots already in use on the device (e.g. by the watch app)
+  searchRadiusMeters?: number; // How far around the origin `locations` were loaded
+  maxClusterRadiusMeters?: number; // Overlapping stores merge only while the merged circle stays this small
+  cardIdsAt?: (location: RegionLocation) => string[]; // The user's cards usable there; locations with none are skipped
+}
+
+interface Cluster {
+  lat: number;
+  lon: number;
+  radiusMeters: number;
+  members: RegionLocation[];
+}
+
+/**
+ * Pick the regions a device should monitor around `origin`. Overlapping stores are
+ * merged into one circle, clusters are ranked by how often the user's cards were
+ * used there (their card locations) and by distance, and the last slot is a
+ * refresh boundary: once the device exits it, it should ask for a new plan.
+ * With `cardIdsAt`, only locations where one of the user's cards works compete
+ * for slots.
+ */
+export function planGeofences(origin: GeoPoint, locations: RegionLocation[], options: PlanOptions = {}): RegionPlan {
+  const budget = Math.max(0, IOS_REGION_LIMIT - (options.reservedRegions || 0));
+  const searchRadius = options.searchRadiusMeters || DEFAULT_SEARCH_RADIUS_METERS;
+  const maxClusterRadius = options.maxClusterRadiusMeters || DEFAULT_MAX_CLUSTER_RADIUS_METERS;
+
+  const candidates = locations
+    .map(loc => ({ loc, distance: haversineDistance(origin.lat, origin.lon, loc.lat, loc.lon) }))
+    .filter(({ loc, distance }) => distance <= searchRadius && (!options.cardIdsAt || options.cardIdsAt(loc).length > 0))
+    .sort((a, b) => a.distance - b.distance || (a.loc.id < b.loc.id ? -1 : 1))
+    .slice(0, MAX_CANDIDATES)
+    .map(({ loc }) => loc);
+
+  const usage = candidates.filter(loc => loc.kind === 'card');
+
+  const ranked = clusterLocations(candidates, maxClusterRadius)
+    .map(cluster => toPlannedRegion(origin, cluster, usage))
+    .sort((a, b) => b.score - a.score || a.distanceMeters - b.distanceMeters);
+
+  const slots = Math.max(0, budget - 1);
+  const regions = ranked.slice(0, slots);
+  const excluded = ranked.slice(slots);
+
+  return {
+    budget,
+    regions,
+    refreshBoundary: refreshBoundary(origin, excluded, searchRadius),
+    candidates: candidates.length,
+    generatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Greedy clustering, nearest first: each location joins the overlapping cluster
+ * whose enclosing circle grows least, if that circle stays within `maxRadius`
+ */
+function clusterLocations(locations: RegionLocation[], maxRadius: number): Cluster[] {
+  const clusters: Cluster[] = [];
+
+  for (const loc of locations) {
+    let best: { cluster: Cluster; merged: Circle } | null = null;
+
+    for (const cluster of clusters) {
+      const distance = haversineDistance(cluster.lat, cluster.lon, loc.lat, loc.lon);
+      if (distance >= cluster.radiusMeters + loc.radiusMeters) {
+        continue;
+      }
+
+      const merged = enclosingCircle(cluster, { lat: loc.lat, lon: loc.lon, radiusMeters: loc.radiusMeters }, distance);
+      if (merged.radiusMeters <= maxRadius && (!best || merged.radiusMeters < best.merged.radiusMeters)) {
+        best = { cluster, merged };
+      }
+    }
+
+    if (best) {
+      best.cluster.lat = best.merged.lat;
+      best.cluster.lon = best.merged.lon;
+      best.cluster.radiusMeters = best.merged.radiusMeters;
+      best.cluster.members.push(loc);
+    } else {
+      clusters.push({ lat: loc.lat, lon: loc.lon, radiusMeters: loc.radiusMeters, members: [loc] });
+    }
+  }
+
+  return clusters;
+}
+
+type Circle = Pick<Cluster, 'lat' | 'lon' | 'radiusMeters'>;
+
+// Smallest circle containing both circles; `distance` is between their centers
+function enclosingCircle(a: Circle, b: Circle, distance: number): Circle {
+  if (distance + b.radiusMeters <= a.radiusMeters) {
+    return { lat: a.lat, lon: a.lon, radiusMeters: a.radiusMeters };
+  }
+  if (distance + a.radiusMeters <= b.radiusMeters) {
+    return { lat: b.lat, lon: b.lon, radiusMeters: b.radiusMeters };
+  }
+
+  const radiusMeters = (distance + a.radiusMeters + b.radiusMeters) / 2;
+  // Center sits on the line between the two, `radius - a.radius` from a's center
+  const t = (radiusMeters - a.radiusMeters) / distance;
+
+  return {
+    lat: a.lat + (b.lat - a.lat) * t,
+    lon: a.lon + (b.lon - a.lon) * t,
+    radiusMeters
+  };
+}
+
+function toPlannedRegion(origin: GeoPoint, cluster: Cluster, usage: RegionLocation[]): PlannedRegion {
+  const radiusMeters = Math.ceil(cluster.radiusMeters);
+  const memberIds = cluster.members.map(m => m.id).sort();
+  const distanceMeters = Math.max(0, haversineDistance(origin.lat, origin.lon, cluster.lat, cluster.lon) - radiusMeters);
+  const usageCount = usage.filter(u =>
+    haversineDistance(cluster.lat, cluster.lon, u.lat, u.lon) <= radiusMeters + USAGE_SLACK_METERS
+  ).length;
+
+  const score = (1 + USAGE_WEIGHT * usageCount) / (1 + distanceMeters / DISTANCE_DECAY_METERS);
+  const [first] = cluster.members;
+
+  return {
+    id: memberIds.length === 1
+      ? memberIds[0]
+      : `cluster:${createHash('sha1').update(memberIds.join('|')).digest('hex').slice(0, 16)}`,
+    name: memberIds.length === 1 ? first.name : `${first.name} (+${memberIds.length - 1})`,
+    lat: round(cluster.lat, 6),
+    lon: round(cluster.lon, 6),
+    radiusMeters,
+    memberIds,
+    usageCount,
+    distanceMeters: Math.round(distanceMeters),
+    score: round(score, 4)
+  };
+}
+
+/**
+ * Centered on the origin. While the device stays within half the distance to the
+ * closest region that didn't make the cut, the plan is still a good one; it also
+ * never reaches past half of the area candidates were loaded from.
+ */
+function refreshBoundary(origin: GeoPoint, excluded: PlannedRegion[], searchRadius: number): RefreshBoundary {
+  const nearestExcluded = excluded.reduce((min, region) => Math.min(min, region.distanceMeters), Infinity);
+  const radius = Math.min(nearestExcluded / 2, searchRadius / 2);
+
+  return {
+    id: REFRESH_BOUNDARY_ID,
+    lat: origin.lat,
+    lon: origin.lon,
+    radiusMeters: Math.round(Math.max(MIN_BOUNDARY_RADIUS_METERS, radius))
+  };
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
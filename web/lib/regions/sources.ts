@@ -0,0 +1,126 @@
+import { pool } from '../db';
+import { accessibleCardCondition } from '../cards/shareRepository';
+import { getCategoryRadii } from '../places/categoryRadiusRepository';
+import { BBox, GeoPoint } from '../places/geoIndex';
+import { getCuratedLocationsInBBox } from '../places/networkRepository';
+import { DEFAULT_GEOFENCE_RADIUS_METERS, resolveGeofenceRadius } from '../places/radius';
+import { RegionLocation } from './types';
+
+/**
+ * The location tables a device can geofence, as RegionLocations: curated network
+ * locations, admin-managed brand_locations (tagged with the card templates they
+ * belong to) and the card_locations of a user's cards, own or shared with them
+ * (tagged with their card ids).
+ */
+
+export interface SourceQueryOptions {
+  near?: GeoPoint; // Order by distance from this point
+  limit?: number;
+}
+
+export async function loadCuratedLocations(bbox: BBox): Promise<RegionLocation[]> {
+  const locations = await getCuratedLocationsInBBox(bbox);
+
+  return locations.map(loc => compact({
+    id: `curated:${loc.id}`,
+    kind: 'curated' as const,
+    name: loc.network_name,
+    lat: loc.lat,
+    lon: loc.lon,
+    radiusMeters: loc.radius_meters,
+    address: loc.notes,
+    networkId: loc.network_id,
+    verified: true
+  }));
+}
+
+export async function loadBrandLocations(bbox: BBox, options: SourceQueryOptions = {}): Promise<RegionLocation[]> {
+  const result = await pool.query(
+    `SELECT l.id, l.name, l.address, l.latitude, l.longitude, l.brand_id, l.verified, l.radius_meters,
+            b.display_name AS brand_display_name, b.default_radius_meters AS brand_radius_meters,
+            b.category AS brand_category,
+            COALESCE(
+              array_agg(t.template_id::text ORDER BY t.priority, t.template_id) FILTER (WHERE t.template_id IS NOT NULL),
+              '{}'
+            ) AS template_ids
+     FROM brand_locations l
+     LEFT JOIN brands b ON l.brand_id = b.id
+     LEFT JOIN template_brand_locations t ON t.brand_location_id = l.id
+     WHERE l.latitude BETWEEN $1 AND $2
+       AND l.longitude BETWEEN $3 AND $4
+     GROUP BY l.id, b.id
+     ORDER BY ${distanceOrder('l', 5)}
+     LIMIT $7`,
+    [bbox.minLat, bbox.maxLat, bbox.minLon, bbox.maxLon, options.near?.lat ?? null, options.near?.lon ?? null, options.limit ?? null]
+  );
+
+  const categoryRadii = await getCategoryRadii();
+
+  return result.rows.map(row => compact({
+    id: `brand:${row.id}`,
+    kind: 'brand' as const,
+    name: row.brand_display_name || row.name,
+    lat: parseFloat(row.latitude),
+    lon: parseFloat(row.longitude),
+    radiusMeters: resolveGeofenceRadius(
+      {
+        locationRadius: row.radius_meters,
+        networkRadius: row.brand_radius_meters,
+        categories: [row.brand_category, row.brand_display_name]
+      },
+      categoryRadii
+    ).radiusMeters,
+    address: row.address || undefined,
+    brandId: row.brand_id || undefined,
+    templateIds: row.template_ids.length > 0 ? row.template_ids : undefined,
+    verified: row.verified === true
+  }));
+}
+
+export async function loadCardLocations(bbox: BBox, userId: string, options: SourceQueryOptions = {}): Promise<RegionLocation[]> {
+  const result = await pool.query(
+    `SELECT l.id, l.card_id, l.location_name, l.address, l.latitude, l.longitude
+     FROM card_locations l
+     JOIN cards c ON c.id = l.card_id AND c.archived_at IS NULL
+     WHERE ${accessibleCardCondition('c', 8)}
+       AND l.latitude BETWEEN $1 AND $2
+       AND l.longitude BETWEEN $3 AND $4
+     ORDER BY ${distanceOrder('l', 5)}
+     LIMIT $7`,
+    [
+      bbox.minLat, bbox.maxLat, bbox.minLon, bbox.maxLon,
+      options.near?.lat ?? null, options.near?.lon ?? null, options.limit ?? null,
+      userId
+    ]
+  );
+
+  return result.rows.map(row => compact({
+    id: `card-location:${row.id}`,
+    kind: 'card' as const,
+    name: row.location_name,
+    lat: parseFloat(row.latitude),
+    lon: parseFloat(row.longitude),
+    radiusMeters: DEFAULT_GEOFENCE_RADIUS_METERS,
+    address: row.address || undefined,
+    cardIds: [row.card_id]
+  }));
+}
+
+// Distance from ($n, $n+1) = (lat, lon) when given, else id order; LIMIT NULL means no limit
+function distanceOrder(alias: string, param: number): string {
+  return `CASE WHEN $${param}::float8 IS NULL THEN 0 ELSE ST_Distance(
+       ST_SetSRID(ST_MakePoint(${alias}.longitude, ${alias}.latitude), 4326)::geography,
+       ST_SetSRID(ST_MakePoint($${param + 1}::float8, $${param}::float8), 4326)::geography
+     ) END, ${alias}.id`;
+}
+
+// Drop undefined fields so the JSON (and any hash of it) is canonical
+function compact(location: RegionLocation): RegionLocation {
+  const result: any = {};
+  for (const key of Object.keys(location) as Array<keyof RegionLocation>) {
+    if (location[key] !== undefined) {
+      result[key] = location[key];
+    }
+  }
+  return result;
+}
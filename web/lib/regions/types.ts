@@ -0,0 +1,65 @@
+import type { BBox } from '../places/geoIndex';
+
+export type RegionLocationKind = 'curated' | 'brand' | 'card';
+
+export interface RegionLocation {
+  id: string; // Prefixed and stable: "curated:<id>", "brand:<uuid>", "card-location:<uuid>"
+  kind: RegionLocationKind;
+  name: string;
+  lat: number;
+  lon: number;
+  radiusMeters: number;
+  address?: string;
+  networkId?: string;
+  brandId?: string;
+  cardIds?: string[]; // The user's cards recorded here
+  templateIds?: string[]; // Card templates linked to a brand location
+  verified?: boolean;
+}
+
+export interface RegionBundle {
+  version: number; // Bundle format version
+  geohash: string;
+  bbox: BBox;
+  contentHash: string; // sha256 of the locations, independent of generatedAt
+  generatedAt: string;
+  locations: RegionLocation[]; // Sorted by id
+}
+
+export interface RegionBundleDelta {
+  version: number;
+  geohash: string;
+  baseHash: string; // The contentHash the client already has
+  contentHash: string; // The contentHash after applying the delta
+  generatedAt: string;
+  added: RegionLocation[];
+  updated: RegionLocation[];
+  removed: string[]; // Location ids
+}
+
+export interface PlannedRegion {
+  id: string; // The location id, or "cluster:<hash of member ids>" for merged stores
+  name: string;
+  lat: number;
+  lon: number;
+  radiusMeters: number;
+  memberIds: string[]; // RegionLocation ids covered by this region
+  usageCount: number; // Times the user's cards were used inside it
+  distanceMeters: number; // From the planning origin to the region's edge (0 inside it)
+  score: number;
+}
+
+export interface RefreshBoundary {
+  id: string;
+  lat: number;
+  lon: number;
+  radiusMeters: number; // Ask for a new plan after leaving this circle
+}
+
+export interface RegionPlan {
+  budget: number; // Regions the device can give us, including the refresh boundary
+  regions: PlannedRegion[]; // At most budget - 1, best first
+  refreshBoundary: RefreshBoundary;
+  candidates: number; // Locations considered before clustering
+  generatedAt: string;
+}
@@ -0,0 +1,170 @@
+import { pool } from '../db';
+import { accessibleCardCondition } from '../cards/shareRepository';
+import {
+  AcceptanceScope,
+  AcceptanceSubject,
+  MIN_ACCEPTANCE_CONFIDENCE,
+  coversLocation,
+  resolveAcceptance
+} from '../places/acceptance';
+import { getAcceptanceForSubjects } from '../places/acceptanceRepository';
+import { getNetworkAliases } from '../places/networkRepository';
+import { TEXT_MATCH_THRESHOLD, matchNetworks, textSimilarity } from '../places/relevance';
+import { NetworkAliases } from '../places/types';
+import { RegionLocation } from './types';
+
+/**
+ * A user's non-archived cards, own and shared with them, and the networks each
+ * can be used at: a card's own network_ids (or, for loyalty/membership cards
+ * without any, the networks their name matches) plus whatever the acceptance
+ * graph says accepts its gift card brand, loyalty brand or networks.
+ */
+
+export interface WalletCard {
+  id: string;
+  name: string;
+  cardType: string;
+  giftCardBrandId?: string;
+  brandId?: string;
+  networkIds: string[];
+}
+
+export interface WalletGrant {
+  cardId: string;
+  scope?: AcceptanceScope; // Partial acceptance
+}
+
+export interface Wallet {
+  cards: WalletCard[];
+  networks: NetworkAliases[]; // Networks at least one card is accepted at
+  grants: Map<string, WalletGrant[]>; // network id -> cards accepted there
+}
+
+export async function loadWallet(userId: string, at: Date = new Date()): Promise<Wallet> {
+  const [result, aliases] = await Promise.all([
+    pool.query(
+      `SELECT c.id, c.name, c.card_type, c.gift_card_brand_id, c.network_ids, b.id AS brand_id
+       FROM cards c
+       LEFT JOIN brands b ON b.name = LOWER(TRIM(c.name))
+       WHERE ${accessibleCardCondition('c', 1)} AND c.archived_at IS NULL
+       ORDER BY c.created_at`,
+      [userId]
+    ),
+    getNetworkAliases()
+  ]);
+
+  const cards: WalletCard[] = result.rows.map(row => {
+    const cardType = row.card_type || 'loyalty';
+    let networkIds: string[] = row.network_ids || [];
+
+    if (networkIds.length === 0 && (cardType === 'loyalty' || cardType === 'membership')) {
+      networkIds = matchNetworks(row.name || '', aliases).map(network => network.id);
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      cardType,
+      giftCardBrandId: row.gift_card_brand_id || undefined,
+      brandId: row.brand_id || undefined,
+      networkIds
+    };
+  });
+
+  const grants = new Map<string, WalletGrant[]>();
+  const grant = (networkId: string, cardGrant: WalletGrant) => {
+    grants.set(networkId, [...(grants.get(networkId) || []), cardGrant]);
+  };
+
+  // A card is always good at its own networks
+  for (const card of cards) {
+    card.networkIds.forEach(networkId => grant(networkId, { cardId: card.id }));
+  }
+
+  const subjectsByCard = new Map(cards.map(card => [card.id, cardSubjects(card)]));
+  const edges = resolveAcceptance(
+    await getAcceptanceForSubjects(([] as AcceptanceSubject[]).concat(...Array.from(subjectsByCard.values()))),
+    { at, minConfidence: MIN_ACCEPTANCE_CONFIDENCE }
+  );
+
+  for (const card of cards) {
+    const subjects = subjectsByCard.get(card.id) || [];
+    for (const edge of edges) {
+      if (subjects.some(s => s.type === edge.subjectType && s.id === edge.subjectId)) {
+        grant(edge.networkId, { cardId: card.id, scope: edge.scope });
+      }
+    }
+  }
+
+  return {
+    cards,
+    networks: aliases.filter(network => grants.has(network.id)),
+    grants
+  };
+}
+
+/**
+ * Cards accepted at a network, optionally at one of its locations (partial
+ * acceptance is checked against the location's id and position)
+ */
+export function cardIdsForNetwork(
+  wallet: Wallet,
+  networkId?: string,
+  location?: { id?: string; lat: number; lon: number }
+): string[] {
+  const ids = new Set<string>();
+
+  for (const cardGrant of (networkId && wallet.grants.get(networkId)) || []) {
+    if (!location || coversLocation(cardGrant.scope, location)) {
+      ids.add(cardGrant.cardId);
+    }
+  }
+
+  return Array.from(ids);
+}
+
+/**
+ * Cards usable at a place known only by name (a brand location or provider
+ * result): through a network the name matches, or by the card's own name
+ */
+export function cardIdsForPlaceName(wallet: Wallet, place: { name: string; lat: number; lon: number }): string[] {
+  const ids = new Set<string>();
+
+  for (const network of matchNetworks(place.name, wallet.networks)) {
+    cardIdsForNetwork(wallet, network.id, place).forEach(id => ids.add(id));
+  }
+
+  for (const card of wallet.cards) {
+    if (card.name && textSimilarity(card.name, place.name) >= TEXT_MATCH_THRESHOLD) {
+      ids.add(card.id);
+    }
+  }
+
+  return Array.from(ids);
+}
+
+/**
+ * Cards usable at a region location: those recorded there, or accepted at its
+ * network, or matching its name
+ */
+export function cardIdsForRegionLocation(wallet: Wallet, location: RegionLocation): string[] {
+  if (location.kind === 'card') {
+    return location.cardIds || [];
+  }
+  return location.networkId
+    ? cardIdsForNetwork(wallet, location.networkId, location)
+    : cardIdsForPlaceName(wallet, location);
+}
+
+function cardSubjects(card: WalletCard): AcceptanceSubject[] {
+  const subjects: AcceptanceSubject[] = card.networkIds.map(id => ({ type: 'network' as const, id }));
+
+  if (card.giftCardBrandId) {
+    subjects.push({ type: 'gift_card_brand', id: card.giftCardBrandId });
+  }
+  if (card.brandId) {
+    subjects.push({ type: 'brand', id: card.brandId });
+  }
+
+  return subjects;
+}
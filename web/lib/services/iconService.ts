@@ -4,6 +4,10 @@
 
 import { sql } from '@vercel/postgres';
 import { kv } from '@vercel/kv';
+import { recordCacheEvent, registerCacheNamespace } from '../cacheMetrics';
+
+// `icon:<name>` holds found icons, `icon:fail:<name>` remembers failed lookups
+registerCacheNamespace('icon', 'icon:');
 
 interface IconResult {
   url: string;
@@ -28,15 +32,19 @@ export async function getDefaultIconForCard(cardName: string): Promise<IconResul
     // Check if we've recently failed to find an icon for this brand
     const cachedFailure = await kv.get<boolean>(failureCacheKey);
     if (cachedFailure) {
+      recordCacheEvent('icon', 'negative');
       return { url: getDefaultPlaceholderIcon(), source: 'default' };
     }
 
     // Check cache for successful icon lookups
     const cachedIcon = await kv.get<string>(cacheKey);
     if (cachedIcon) {
+      recordCacheEvent('icon', 'hit');
       return { url: cachedIcon, source: 'cache' };
     }
 
+    recordCacheEvent('icon', 'miss');
+
     // Search for brand icon using web search
     const iconUrl = await searchForBrandIcon(normalizedName, cardName);
 
@@ -0,0 +1,78 @@
+#!/usr/bin/env tsx
+
+/**
+ * Curated Networks Migration Script
+ *
+ * Creates the networks/locations tables (017_curated_networks.sql, plus the
+ * external key / tombstone columns from 018 and the geofence radius defaults from
+ * 019) and loads data/curated-networks.json into them. Safe to re-run: rows are upserted.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-curated-networks.ts
+ */
+
+import 'dotenv/config';
+import { sql } from '@vercel/postgres';
+import fs from 'fs';
+import path from 'path';
+import { curatedLocationId } from '../lib/places/csvImporter';
+import { saveNetwork } from '../lib/places/networkRepository';
+import { CuratedLocation, Network } from '../lib/places/types';
+
+const CATEGORIES: Record<string, string> = {
+  'costco': 'warehouse_club',
+  'whole-foods': 'grocery',
+  'kohls': 'retail',
+  'sfpl': 'library'
+};
+
+async function migrate() {
+  console.log('🚀 Starting curated networks migration...\n');
+
+  try {
+    for (const migration of ['017_curated_networks.sql', '018_location_external_keys.sql', '019_geofence_radii.sql']) {
+      const migrationPath = path.join(__dirname, '..', 'db', 'migrations', migration);
+      const migrationSQL = fs.readFileSync(migrationPath, 'utf-8');
+
+      console.log(`📄 Running ${migration}...`);
+      await sql.query(migrationSQL);
+    }
+
+    const dataPath = path.join(__dirname, '..', 'data', 'curated-networks.json');
+    const networks: Network[] = JSON.parse(fs.readFileSync(dataPath, 'utf-8'));
+
+    for (const network of networks) {
+      const locations: CuratedLocation[] = network.locations.map(loc => ({
+        ...loc,
+        id: loc.id || curatedLocationId(network.id, loc.lat, loc.lon, loc.external_key),
+        // 100 is the old implicit default; leave those to the network/category default
+        radius_override: loc.radius_meters !== 100 ? loc.radius_meters : undefined
+      }));
+
+      await saveNetwork({
+        ...network,
+        category: network.category || CATEGORIES[network.id],
+        locations
+      });
+
+      console.log(`  ✓ ${network.id}: ${locations.length} locations`);
+    }
+
+    const result = await sql`SELECT COUNT(*)::int AS count FROM locations WHERE removed_at IS NULL`;
+    console.log(`\n✓ locations table now holds ${result.rows[0].count} rows`);
+  } catch (error) {
+    console.error('❌ Migration failed:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+migrate()
+  .then(() => {
+    console.log('\n✨ Curated networks are in Postgres!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });